@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import App from './App';
+import { expectNoAxeViolations } from './test/axe';
+
+// The compass and level are only offered where the browser has motion sensor events.
+beforeAll(() => {
+  vi.stubGlobal('DeviceOrientationEvent', class extends Event {});
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('App', () => {
+  it('has a tab for every view, each controlling the view panel', () => {
+    render(<App />);
+
+    const tabs = screen.getAllByRole('tab');
+    expect(tabs.map(tab => tab.getAttribute('aria-label'))).toEqual([
+      'Home', 'Alarm', 'Stopwatch', 'Timer', 'Weather', 'World Clock', 'Compass', 'Level', 'Settings',
+    ]);
+    expect(tabs.filter(tab => tab.getAttribute('aria-selected') === 'true')).toHaveLength(1);
+    expect(screen.getByRole('tabpanel', { name: 'Home' })).toBeTruthy();
+  });
+
+  it('moves between tabs with the arrow keys', () => {
+    render(<App />);
+
+    fireEvent.keyDown(screen.getByRole('tab', { name: 'Home' }), { key: 'ArrowRight' });
+    expect(document.activeElement).toBe(screen.getByRole('tab', { name: 'Alarm' }));
+    expect(screen.getByRole('tabpanel', { name: 'Alarm' })).toBeTruthy();
+
+    fireEvent.keyDown(document.activeElement!, { key: 'End' });
+    expect(screen.getByRole('tabpanel', { name: 'Settings' })).toBeTruthy();
+  });
+
+  it('has no axe violations in any view', async () => {
+    render(<App />);
+
+    for (const tab of screen.getAllByRole('tab')) {
+      // Let effects that load data on mount settle before checking.
+      await act(async () => {
+        fireEvent.click(tab);
+      });
+      expect(screen.getByRole('tabpanel').getAttribute('aria-labelledby')).toBe(tab.id);
+      await expectNoAxeViolations();
+    }
+  }, 60_000);
+});
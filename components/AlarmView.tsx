@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Alarm, AlarmRepeat, Weekday } from '../types';
+import { ICONS } from '../constants';
+import { MessageKey } from '../locales/en';
+import { alarmStore, addAlarm, editAlarm, removeAlarm, setAlarmEnabled } from '../services/alarmStore';
+import { requestNotificationPermission } from '../services/notificationService';
+import { settingsStore } from '../services/settingsStore';
+import { formatClockTime, formatTimeOfDay } from '../utils/units';
+import { ALL_DAYS, describeRepeat, weekdayLabel } from '../utils/alarmRepeat';
+import { useStore } from '../hooks/useStore';
+import { useNow } from '../hooks/useNow';
+import { useTranslation } from '../hooks/useTranslation';
+import { Icon, Card, Button } from './ui';
+import SoundPicker from './SoundPicker';
+
+const emptyForm = { label: '', time: '', repeat: { type: 'once' } as AlarmRepeat };
+
+const REPEAT_LABEL_KEYS: Record<AlarmRepeat['type'], MessageKey> = {
+    once: 'repeat.once',
+    weekdays: 'repeat.weekdays',
+    days: 'repeat.custom',
+};
+
+const AlarmForm = ({ editing, onDone }: { editing: Alarm | null; onDone: () => void }) => {
+    const [label, setLabel] = useState(editing?.label ?? emptyForm.label);
+    const [time, setTime] = useState(editing?.time ?? emptyForm.time);
+    const [repeat, setRepeat] = useState<AlarmRepeat>(editing?.repeat ?? emptyForm.repeat);
+    const [soundId, setSoundId] = useState<string | null>(editing?.soundId ?? null);
+    const { sounds } = useStore(settingsStore);
+    const { t } = useTranslation();
+
+    const toggleDay = (day: Weekday) => {
+        const days = repeat.type === 'days' ? repeat.days : [];
+        setRepeat({ type: 'days', days: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+    };
+
+    const canSave = time !== '' && !(repeat.type === 'days' && repeat.days.length === 0);
+
+    const save = () => {
+        // Saving is a user gesture, which browsers require for the permission prompt.
+        requestNotificationPermission();
+        const fields = { label: label.trim() || t('alarm.defaultLabel'), time, repeat, soundId };
+        if (editing) {
+            editAlarm(editing.id, fields);
+        } else {
+            addAlarm(fields);
+        }
+        onDone();
+    };
+
+    return (
+        <div className="space-y-3">
+            <input
+                type="text"
+                aria-label={t('alarm.nameField')}
+                placeholder={t('alarm.nameField')}
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="bg-gray-700 border border-gray-600 rounded-lg p-3 text-white w-full"
+            />
+            <input
+                type="time"
+                aria-label={t('alarm.timeField')}
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="bg-gray-700 border border-gray-600 rounded-lg p-3 text-white w-full text-center text-lg"
+            />
+            <div role="group" aria-label={t('alarm.repeat')} className="flex justify-center gap-2">
+                {(['once', 'weekdays', 'days'] as const).map(type => (
+                    <button
+                        key={type}
+                        onClick={() => setRepeat(type === 'days' ? { type, days: [] } : { type })}
+                        aria-pressed={repeat.type === type}
+                        className={`px-4 py-1.5 rounded-full text-sm transition-all transform motion-safe:active:scale-95 ${repeat.type === type ? 'bg-blue-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    >
+                        {t(REPEAT_LABEL_KEYS[type])}
+                    </button>
+                ))}
+            </div>
+            {repeat.type === 'days' && (
+                <div role="group" aria-label={t('alarm.repeatOn')} className="flex justify-center gap-1">
+                    {ALL_DAYS.map(day => (
+                        <button
+                            key={day}
+                            onClick={() => toggleDay(day)}
+                            aria-pressed={repeat.days.includes(day)}
+                            className={`w-10 py-1 rounded-md text-xs transition-colors ${repeat.days.includes(day) ? 'bg-blue-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+                        >
+                            {weekdayLabel(day)}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <SoundPicker label={t('alarm.sound')} value={soundId} onChange={setSoundId} defaultSoundId={sounds.alarmSoundId} />
+            <div className="grid grid-cols-2 gap-4">
+                <Button onClick={onDone} className="bg-gray-600 hover:bg-gray-700">{t('common.cancel')}</Button>
+                <Button onClick={save} disabled={!canSave} className="bg-blue-500 hover:bg-blue-600">{t('common.save')}</Button>
+            </div>
+        </div>
+    );
+};
+
+const AlarmView = () => {
+    const currentTime = new Date(useNow(1000));
+    const alarms = useStore(alarmStore);
+    const { clockFormat } = useStore(settingsStore);
+    const { t, locale } = useTranslation();
+    const [formOpen, setFormOpen] = useState(false);
+    const [editing, setEditing] = useState<Alarm | null>(null);
+
+    const openForm = (alarm: Alarm | null) => {
+        setEditing(alarm);
+        setFormOpen(true);
+    };
+
+    const closeForm = () => {
+        setEditing(null);
+        setFormOpen(false);
+    };
+
+    const sortedAlarms = [...alarms].sort((a, b) => a.time.localeCompare(b.time));
+
+    return (
+        <Card title={t('alarm.title')} icon={<Icon>{ICONS.ALARM}</Icon>}>
+            <div className="text-center">
+                <p className="text-6xl font-mono font-bold text-white tracking-wider">{formatClockTime(currentTime, clockFormat)}</p>
+                <p className="text-lg text-gray-400">{currentTime.toLocaleDateString(locale.tag, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}</p>
+            </div>
+            <div className="mt-6">
+                {formOpen ? (
+                    <AlarmForm editing={editing} onDone={closeForm} />
+                ) : (
+                    <>
+                        {sortedAlarms.length > 0 ? (
+                            <ul className="max-h-48 overflow-y-auto space-y-2 pe-2">
+                                {sortedAlarms.map(alarm => (
+                                    <li key={alarm.id} className="flex items-center justify-between bg-gray-800/50 p-3 rounded-lg">
+                                        <button onClick={() => openForm(alarm)} className="text-start flex-1 min-w-0">
+                                            <p className={`text-2xl font-mono font-bold ${alarm.enabled ? 'text-white' : 'text-gray-500'}`}>{formatTimeOfDay(alarm.time, clockFormat)}</p>
+                                            <p className="text-xs text-gray-400 truncate">
+                                                {alarm.label} · {describeRepeat(alarm.repeat)}
+                                                {alarm.snoozedUntil !== null && ` · ${t('alarm.snoozed')}`}
+                                            </p>
+                                        </button>
+                                        <div className="flex items-center gap-3 ms-2">
+                                            <button
+                                                role="switch"
+                                                aria-checked={alarm.enabled}
+                                                aria-label={t(alarm.enabled ? 'alarm.disable' : 'alarm.enable', { label: alarm.label })}
+                                                onClick={() => setAlarmEnabled(alarm.id, !alarm.enabled)}
+                                                className={`w-11 h-6 rounded-full p-0.5 transition-colors ${alarm.enabled ? 'bg-blue-500' : 'bg-gray-600'}`}
+                                            >
+                                                <span className={`block w-5 h-5 rounded-full bg-white transition-transform ${alarm.enabled ? 'translate-x-5 rtl:-translate-x-5' : ''}`} />
+                                            </button>
+                                            <button onClick={() => removeAlarm(alarm.id)} aria-label={t('alarm.delete', { label: alarm.label })} className="text-gray-500 hover:text-red-400 transition-colors">
+                                                ✕
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-center text-gray-400">{t('alarm.empty')}</p>
+                        )}
+                        <Button onClick={() => openForm(null)} className="w-full mt-4 bg-blue-500 hover:bg-blue-600">
+                            {t('alarm.add')}
+                        </Button>
+                    </>
+                )}
+            </div>
+        </Card>
+    );
+};
+
+export default AlarmView;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { CachedWeather } from '../types';
+import { useWeatherBriefing } from '../hooks/useWeatherBriefing';
+import { useTranslation } from '../hooks/useTranslation';
+
+const BriefingPanel = ({ entry }: { entry: CachedWeather }) => {
+    const { briefing, loading } = useWeatherBriefing(entry);
+    const { t } = useTranslation();
+
+    if (loading) {
+        return <p className="mt-6 w-full text-start text-sm text-gray-400 motion-safe:animate-pulse">{t('weather.briefingLoading')}</p>;
+    }
+    if (!briefing) return null;
+
+    return (
+        <section aria-label={t('weather.briefing')} className="mt-6 w-full text-start bg-blue-500/10 border border-blue-400/20 rounded-xl p-3 text-sm">
+            <p className="text-gray-100">{briefing.summary}</p>
+            {briefing.suggestions.length > 0 && (
+                <ul className="mt-2 space-y-1 text-gray-300 list-disc list-inside">
+                    {briefing.suggestions.map((suggestion, i) => <li key={i}>{suggestion}</li>)}
+                </ul>
+            )}
+            {briefing.sources.length > 0 && (
+                <p className="mt-2 text-xs text-gray-500 truncate">
+                    {t('weather.briefingSources')}{' '}
+                    {briefing.sources.map((source, i) => (
+                        <React.Fragment key={i}>
+                            {i > 0 && ', '}
+                            <a href={source.web.uri} target="_blank" rel="noopener noreferrer" className="hover:underline text-blue-400">
+                                {source.web.title || source.web.uri}
+                            </a>
+                        </React.Fragment>
+                    ))}
+                </p>
+            )}
+        </section>
+    );
+};
+
+export default BriefingPanel;
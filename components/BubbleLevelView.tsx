@@ -0,0 +1,68 @@
+import React from 'react';
+import { ICONS } from '../constants';
+import { hasScreenOrientation } from '../services/orientationDetection';
+import { useMotionSensor } from '../hooks/useMotionSensor';
+import { useTranslation } from '../hooks/useTranslation';
+import { Icon, Card } from './ui';
+import SensorStatus from './SensorStatus';
+
+/** Tilt at which the bubble reaches the edge of the vial. */
+const MAX_TILT_DEG = 15;
+/** Within this much tilt on both axes the surface counts as level. */
+const LEVEL_TOLERANCE_DEG = 1;
+
+const clamp = (value: number, limit: number) => Math.max(-limit, Math.min(limit, value));
+
+/**
+ * Turns device-frame tilt into screen-frame tilt, so the bubble still moves
+ * the right way when the screen is shown rotated.
+ */
+const toScreenTilt = (beta: number, gamma: number) => {
+    const angle = (hasScreenOrientation() ? window.screen.orientation.angle : 0) * Math.PI / 180;
+    return {
+        x: gamma * Math.cos(angle) + beta * Math.sin(angle),
+        y: beta * Math.cos(angle) - gamma * Math.sin(angle),
+    };
+};
+
+const BubbleLevelView = () => {
+    const { supported, reading, permission, requestPermission } = useMotionSensor();
+    const { t } = useTranslation();
+
+    if (reading === null) {
+        return (
+            <Card title={t('level.title')} icon={<Icon>{ICONS.LEVEL}</Icon>}>
+                <SensorStatus supported={supported} permission={permission} waiting onRequestPermission={requestPermission} />
+            </Card>
+        );
+    }
+
+    const tilt = toScreenTilt(reading.beta, reading.gamma);
+    const level = Math.abs(tilt.x) < LEVEL_TOLERANCE_DEG && Math.abs(tilt.y) < LEVEL_TOLERANCE_DEG;
+    // The bubble floats to the high side, opposite to the way the device tilts down.
+    const bubbleX = -clamp(tilt.x, MAX_TILT_DEG) / MAX_TILT_DEG * 50;
+    const bubbleY = -clamp(tilt.y, MAX_TILT_DEG) / MAX_TILT_DEG * 50;
+
+    return (
+        <Card title={t('level.title')} icon={<Icon>{ICONS.LEVEL}</Icon>}>
+            <div className="flex flex-col items-center">
+                <div className={`relative w-56 h-56 rounded-full border-4 ${level ? 'border-green-400 bg-green-500/10' : 'border-gray-600 bg-gray-800/50'}`} aria-hidden="true">
+                    <div className="absolute inset-1/3 rounded-full border border-gray-500" />
+                    <div className="absolute left-1/2 top-0 bottom-0 w-px bg-gray-600" />
+                    <div className="absolute top-1/2 left-0 right-0 h-px bg-gray-600" />
+                    <div
+                        className={`absolute w-12 h-12 -ml-6 -mt-6 rounded-full shadow-lg ${level ? 'bg-green-400' : 'bg-lime-300/90'}`}
+                        style={{ left: `${50 + bubbleX * 0.8}%`, top: `${50 + bubbleY * 0.8}%` }}
+                    />
+                </div>
+                <p className={`mt-4 text-2xl font-semibold ${level ? 'text-green-400' : 'text-white'}`}>{t(level ? 'level.level' : 'level.notLevel')}</p>
+                <p className="text-sm font-mono text-gray-400">
+                    X {tilt.x.toFixed(1)}° · Y {tilt.y.toFixed(1)}°
+                </p>
+                <p className="text-xs text-gray-400 mt-1">{t('level.hint')}</p>
+            </div>
+        </Card>
+    );
+};
+
+export default BubbleLevelView;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { ToolId } from '../types';
+import { MessageKey } from '../locales/en';
+import { CommandError } from '../services/errors';
+import { runCommand } from '../services/commandService';
+import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
+import { useTranslation } from '../hooks/useTranslation';
+
+const commandErrorMessage = (error: unknown): MessageKey => {
+    if (!(error instanceof CommandError)) return 'command.error.unknown';
+    switch (error.kind) {
+        case 'missing-api-key': return 'command.error.missingApiKey';
+        case 'network': return 'command.error.network';
+        case 'not-understood': return 'command.error.notUnderstood';
+        case 'invalid-arguments': return 'command.error.invalidArguments';
+    }
+};
+
+const CommandBar = ({ onNavigate }: { onNavigate: (tool: ToolId) => void }) => {
+    const [text, setText] = useState('');
+    const [pending, setPending] = useState(false);
+    const [messages, setMessages] = useState<string[]>([]);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const { t } = useTranslation();
+
+    const submit = async (command: string) => {
+        if (!command.trim() || pending) return;
+        setPending(true);
+        setError(null);
+        setMessages([]);
+        try {
+            const outcomes = await runCommand(command.trim());
+            setMessages(outcomes.map(outcome => outcome.message));
+            setText('');
+            onNavigate(outcomes[outcomes.length - 1].tool);
+        } catch (err) {
+            setError(commandErrorMessage(err));
+        } finally {
+            setPending(false);
+        }
+    };
+
+    const speech = useSpeechRecognition((transcript) => {
+        setText(transcript);
+        submit(transcript);
+    });
+    const shownError = error ?? speech.error;
+
+    return (
+        <div className="w-full max-w-sm mx-auto">
+            <form
+                onSubmit={(e) => { e.preventDefault(); submit(text); }}
+                className="flex items-center bg-black/40 backdrop-blur-2xl rounded-2xl border border-white/10 p-1.5"
+            >
+                <input
+                    type="text"
+                    aria-label={t('command.field')}
+                    placeholder={t('command.placeholder')}
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    disabled={pending}
+                    className="flex-1 min-w-0 bg-transparent px-3 py-1.5 text-sm text-white placeholder-gray-500 focus:outline-none"
+                />
+                {speech.supported && (
+                    <button
+                        type="button"
+                        onClick={speech.listening ? speech.stop : speech.listen}
+                        disabled={pending}
+                        aria-pressed={speech.listening}
+                        aria-label={t(speech.listening ? 'command.stopDictation' : 'command.dictate')}
+                        className={`px-2 text-lg ${speech.listening ? 'text-red-400 motion-safe:animate-pulse' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        🎤
+                    </button>
+                )}
+                <button type="submit" disabled={pending || !text.trim()} className="px-3 py-1.5 rounded-xl bg-blue-500 hover:bg-blue-600 text-sm font-semibold text-white disabled:opacity-40">
+                    {pending ? '…' : t('command.go')}
+                </button>
+            </form>
+            <div aria-live="polite" className="text-xs mt-1 px-2 space-y-0.5">
+                {messages.map((message, i) => <p key={i} className="text-green-300">{message}</p>)}
+                {shownError && <p className="text-red-400">{t(shownError)}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default CommandBar;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { ICONS } from '../constants';
+import { MessageKey } from '../locales/en';
+import { useMotionSensor } from '../hooks/useMotionSensor';
+import { useTranslation } from '../hooks/useTranslation';
+import { Icon, Card } from './ui';
+import SensorStatus from './SensorStatus';
+
+const CARDINAL_DIRECTIONS: MessageKey[] = [
+    'compass.north', 'compass.northEast', 'compass.east', 'compass.southEast',
+    'compass.south', 'compass.southWest', 'compass.west', 'compass.northWest',
+];
+
+const cardinalDirection = (heading: number) => CARDINAL_DIRECTIONS[Math.round(heading / 45) % CARDINAL_DIRECTIONS.length];
+
+const DIAL_LABELS: { labelKey: MessageKey; angle: number }[] = [
+    { labelKey: 'compass.north', angle: 0 },
+    { labelKey: 'compass.east', angle: 90 },
+    { labelKey: 'compass.south', angle: 180 },
+    { labelKey: 'compass.west', angle: 270 },
+];
+
+const CompassView = () => {
+    const { supported, reading, permission, requestPermission } = useMotionSensor();
+    const heading = reading?.heading ?? null;
+    const { t } = useTranslation();
+
+    return (
+        <Card title={t('compass.title')} icon={<Icon>{ICONS.COMPASS}</Icon>}>
+            {reading === null ? (
+                <SensorStatus supported={supported} permission={permission} waiting onRequestPermission={requestPermission} />
+            ) : heading === null ? (
+                <p className="text-center text-sm text-gray-400">{t('compass.noHeading')}</p>
+            ) : (
+                <div className="flex flex-col items-center">
+                    <div className="relative w-56 h-56">
+                        {/* Fixed marker for the direction the device points. */}
+                        <div className="absolute left-1/2 -top-1 -translate-x-1/2 w-0 h-0 border-x-8 border-x-transparent border-t-[12px] border-t-red-500 z-10" />
+                        <svg viewBox="-100 -100 200 200" className="w-full h-full" style={{ transform: `rotate(${-heading}deg)` }} aria-hidden="true">
+                            <circle r="96" fill="none" stroke="#4b5563" strokeWidth="2" />
+                            {Array.from({ length: 36 }, (_, i) => (
+                                <line
+                                    key={i}
+                                    y1={-96}
+                                    y2={i % 9 === 0 ? -82 : -88}
+                                    stroke={i === 0 ? '#ef4444' : '#9ca3af'}
+                                    strokeWidth={i % 9 === 0 ? 3 : 1}
+                                    transform={`rotate(${i * 10})`}
+                                />
+                            ))}
+                            {DIAL_LABELS.map(({ labelKey, angle }) => (
+                                <text
+                                    key={angle}
+                                    transform={`rotate(${angle}) translate(0 -62) rotate(${-angle})`}
+                                    textAnchor="middle"
+                                    dominantBaseline="middle"
+                                    fontSize="18"
+                                    fontWeight="bold"
+                                    fill={angle === 0 ? '#ef4444' : '#e5e7eb'}
+                                >
+                                    {t(labelKey)}
+                                </text>
+                            ))}
+                        </svg>
+                    </div>
+                    <p className="mt-4 text-4xl font-mono font-bold">
+                        {Math.round(heading) % 360}° {t(cardinalDirection(heading))}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">{t('compass.hint')}</p>
+                </div>
+            )}
+        </Card>
+    );
+};
+
+export default CompassView;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { WeatherForecast } from '../types';
+import { settingsStore } from '../services/settingsStore';
+import { formatTemperature, formatTimeOfDay } from '../utils/units';
+import { useStore } from '../hooks/useStore';
+import { useTranslation } from '../hooks/useTranslation';
+
+// Forecast timestamps are local to the forecast location, so they are formatted
+// from their calendar fields rather than converted through the device timezone.
+
+const formatDay = (date: string, locale: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString(locale, { weekday: 'short' });
+};
+
+const ForecastSections = ({ forecast }: { forecast: WeatherForecast }) => {
+    const { temperatureUnit, clockFormat } = useStore(settingsStore);
+    const { t, locale } = useTranslation();
+
+    return (
+        <div className="mt-6 w-full text-start space-y-4">
+            {forecast.hourly.length > 0 && (
+                <section aria-label={t('forecast.hourly')}>
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">{t('forecast.next24Hours')}</h4>
+                    <ul className="flex gap-2 overflow-x-auto pb-2">
+                        {forecast.hourly.map((hour, index) => (
+                            <li key={hour.time} className="flex-shrink-0 w-14 bg-gray-800/50 rounded-lg py-2 flex flex-col items-center text-sm">
+                                <span className="text-xs text-gray-400">{index === 0 ? t('forecast.now') : formatTimeOfDay(hour.time.slice(11, 16), clockFormat)}</span>
+                                <span className="text-xl my-1" title={hour.condition}>{hour.icon}</span>
+                                <span className="font-semibold">{formatTemperature(hour.temperature, temperatureUnit, { showUnit: false })}</span>
+                                {hour.precipitationChance > 0 && (
+                                    <span className="text-xs text-blue-300">{Math.round(hour.precipitationChance)}%</span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+            {forecast.daily.length > 0 && (
+                <section aria-label={t('forecast.daily')}>
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-2">{t('forecast.daily')}</h4>
+                    <ul className="max-h-48 overflow-y-auto space-y-1 pe-2">
+                        {forecast.daily.map((day, index) => (
+                            <li key={day.date} className="grid grid-cols-[3rem_2rem_1fr_auto] items-center gap-2 bg-gray-800/50 px-3 py-2 rounded-md text-sm">
+                                <span className="font-medium text-gray-300">{index === 0 ? t('forecast.today') : formatDay(day.date, locale.tag)}</span>
+                                <span className="text-lg" title={day.condition}>{day.icon}</span>
+                                <span className="text-xs text-blue-300">{day.precipitationChance > 0 ? `${Math.round(day.precipitationChance)}%` : ''}</span>
+                                <span className="font-mono">
+                                    <span className="text-white">{formatTemperature(day.high, temperatureUnit, { showUnit: false })}</span>
+                                    <span className="text-gray-500"> / {formatTemperature(day.low, temperatureUnit, { showUnit: false })}</span>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default ForecastSections;
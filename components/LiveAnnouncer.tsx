@@ -0,0 +1,35 @@
+import React, { useState, useEffect } from 'react';
+import { AnnouncementPriority, onAnnouncement } from '../services/announcer';
+
+// Screen readers only read changes to a live region, so it is emptied first and
+// refilled a moment later; that way the same message can be announced twice.
+const REFILL_DELAY_MS = 100;
+
+const LiveAnnouncer = () => {
+    const [messages, setMessages] = useState<Record<AnnouncementPriority, string>>({ polite: '', assertive: '' });
+
+    useEffect(() => {
+        const timeouts = new Set<number>();
+        const unsubscribe = onAnnouncement(({ message, priority }) => {
+            setMessages(prev => ({ ...prev, [priority]: '' }));
+            const timeout = window.setTimeout(() => {
+                timeouts.delete(timeout);
+                setMessages(prev => ({ ...prev, [priority]: message }));
+            }, REFILL_DELAY_MS);
+            timeouts.add(timeout);
+        });
+        return () => {
+            unsubscribe();
+            timeouts.forEach(timeout => window.clearTimeout(timeout));
+        };
+    }, []);
+
+    return (
+        <div className="sr-only">
+            <div role="status" aria-live="polite" aria-atomic="true">{messages.polite}</div>
+            <div role="alert" aria-live="assertive" aria-atomic="true">{messages.assertive}</div>
+        </div>
+    );
+};
+
+export default LiveAnnouncer;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { LocationMatch, WeatherProvider } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from './ui';
+
+interface LocationSearchProps {
+    provider: WeatherProvider;
+    onSelect: (match: LocationMatch) => void;
+    onCancel: () => void;
+}
+
+const LocationSearch = ({ provider, onSelect, onCancel }: LocationSearchProps) => {
+    const [query, setQuery] = useState('');
+    const [matches, setMatches] = useState<LocationMatch[] | null>(null);
+    const [searching, setSearching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { t, locale } = useTranslation();
+
+    const search = async () => {
+        if (!query.trim()) return;
+        setSearching(true);
+        setError(null);
+        try {
+            setMatches(await provider.searchLocations(query.trim(), locale.id));
+        } catch {
+            setError(t('weather.searchFailed'));
+        } finally {
+            setSearching(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <form
+                role="search"
+                className="flex gap-2"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    search();
+                }}
+            >
+                <input
+                    type="search"
+                    aria-label={t('weather.searchField')}
+                    placeholder={t('weather.searchField')}
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg p-3 text-white"
+                    autoFocus
+                />
+                <button type="submit" disabled={searching || !query.trim()} className="px-4 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:opacity-50 font-semibold">
+                    {searching ? '…' : t('weather.search')}
+                </button>
+            </form>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {matches && matches.length === 0 && <p className="text-sm text-gray-400">{t('weather.noMatches')}</p>}
+            {matches && matches.length > 0 && (
+                <ul className="max-h-48 overflow-y-auto space-y-1 pe-2">
+                    {matches.map(match => (
+                        <li key={`${match.coords.lat},${match.coords.lon}`}>
+                            <button onClick={() => onSelect(match)} className="w-full text-start bg-gray-800/50 hover:bg-gray-700/60 p-2 rounded-md">
+                                <span className="block font-medium">{match.name}</span>
+                                <span className="block text-xs text-gray-400">{match.region}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <Button onClick={onCancel} className="w-full bg-gray-600 hover:bg-gray-700">{t('common.cancel')}</Button>
+        </div>
+    );
+};
+
+export default LocationSearch;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { TimerProgram } from '../types';
+import { timerProgramStore, deleteTimerProgram, createSimpleProgram } from '../services/timerProgramStore';
+import { addTimer } from '../services/timerStore';
+import { requestNotificationPermission } from '../services/notificationService';
+import { useStore } from '../hooks/useStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from './ui';
+import TimerProgramEditor from './TimerProgramEditor';
+
+const QUICK_MINUTES = [1, 5, 10, 15];
+
+const chipClass = (active: boolean) =>
+    `px-4 py-1.5 rounded-full text-sm transition-all transform motion-safe:active:scale-95 ${active ? 'bg-blue-500 text-white' : 'bg-gray-700 hover:bg-gray-600'}`;
+
+interface DurationPickerProps {
+    seconds: number;
+    onChange: (seconds: number) => void;
+}
+
+const DurationPicker = ({ seconds, onChange }: DurationPickerProps) => {
+    const { t } = useTranslation();
+    const parts = [
+        { label: t('timer.hours'), value: Math.floor(seconds / 3600), max: 99, scale: 3600 },
+        { label: t('timer.minutes'), value: Math.floor((seconds % 3600) / 60), max: 59, scale: 60 },
+        { label: t('timer.seconds'), value: seconds % 60, max: 59, scale: 1 },
+    ];
+
+    const setPart = (index: number, raw: string) => {
+        const part = parts[index];
+        const value = Math.min(Math.max(Math.floor(Number(raw) || 0), 0), part.max);
+        onChange(seconds + (value - part.value) * part.scale);
+    };
+
+    return (
+        <div className="flex justify-center items-end gap-2 font-mono">
+            {parts.map((part, index) => (
+                <label key={part.label} className="flex flex-col items-center">
+                    <input
+                        type="number"
+                        min={0}
+                        max={part.max}
+                        aria-label={part.label}
+                        value={part.value.toString().padStart(2, '0')}
+                        onChange={(e) => setPart(index, e.target.value)}
+                        className="w-20 bg-gray-700 border border-gray-600 rounded-lg p-2 text-4xl text-center text-white"
+                    />
+                    <span className="text-xs text-gray-500 mt-1 font-sans">{part.label}</span>
+                </label>
+            ))}
+        </div>
+    );
+};
+
+interface NewTimerFormProps {
+    onDone: () => void;
+    onCancel: (() => void) | null;
+}
+
+const NewTimerForm = ({ onDone, onCancel }: NewTimerFormProps) => {
+    const programs = useStore(timerProgramStore);
+    const [label, setLabel] = useState('');
+    const [seconds, setSeconds] = useState(300);
+    const [program, setProgram] = useState<TimerProgram | null>(null);
+    const [editing, setEditing] = useState<TimerProgram | 'new' | null>(null);
+    const { t } = useTranslation();
+
+    if (editing) {
+        return (
+            <TimerProgramEditor
+                program={editing === 'new' ? null : editing}
+                onDone={(saved) => {
+                    setEditing(null);
+                    if (saved) setProgram(saved);
+                }}
+            />
+        );
+    }
+
+    const start = () => {
+        requestNotificationPermission();
+        const chosen = program ?? createSimpleProgram(seconds, t('timer.defaultLabel'));
+        addTimer(chosen, label.trim() || chosen.name);
+        onDone();
+    };
+
+    const handleDelete = (id: string) => {
+        deleteTimerProgram(id);
+        setProgram(null);
+    };
+
+    return (
+        <div className="space-y-4">
+            <input
+                type="text"
+                aria-label={t('timer.labelField')}
+                placeholder={t('timer.labelPlaceholder')}
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg p-2 text-white"
+            />
+            {program ? (
+                <div className="text-center">
+                    <p className="text-2xl font-semibold">{program.name}</p>
+                    <p className="text-sm text-gray-400">
+                        {program.stages.map(stage => stage.label).join(' / ')} × {program.rounds}
+                    </p>
+                    <div className="flex justify-center gap-4 mt-2 text-xs">
+                        <button onClick={() => setEditing(program)} className="text-blue-400 hover:text-blue-300">{t('common.edit')}</button>
+                        <button onClick={() => handleDelete(program.id)} className="text-gray-500 hover:text-red-400">{t('common.delete')}</button>
+                        <button onClick={() => setProgram(null)} className="text-gray-400 hover:text-white">{t('timer.customDuration')}</button>
+                    </div>
+                </div>
+            ) : (
+                <DurationPicker seconds={seconds} onChange={setSeconds} />
+            )}
+            <div role="group" aria-label={t('timer.quickDurations')} className="flex justify-center flex-wrap gap-2">
+                {QUICK_MINUTES.map(min => (
+                    <button
+                        key={min}
+                        onClick={() => { setProgram(null); setSeconds(min * 60); }}
+                        aria-pressed={!program && seconds === min * 60}
+                        aria-label={t('timer.minuteCount', { count: min })}
+                        className={chipClass(!program && seconds === min * 60)}
+                    >
+                        {t('timer.minutesShort', { count: min })}
+                    </button>
+                ))}
+            </div>
+            <div role="group" aria-label={t('timer.savedPrograms')} className="flex justify-center flex-wrap gap-2">
+                {programs.map(saved => (
+                    <button key={saved.id} onClick={() => setProgram(saved)} aria-pressed={program?.id === saved.id} className={chipClass(program?.id === saved.id)}>
+                        {saved.name}
+                    </button>
+                ))}
+                <button onClick={() => setEditing('new')} aria-label={t('timer.newProgram')} className={chipClass(false)}>+</button>
+            </div>
+            <div className={`grid gap-4 ${onCancel ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {onCancel && <Button onClick={onCancel} className="bg-gray-600 hover:bg-gray-700">{t('common.cancel')}</Button>}
+                <Button onClick={start} disabled={!program && seconds <= 0} className="bg-blue-500 hover:bg-blue-600">{t('common.start')}</Button>
+            </div>
+        </div>
+    );
+};
+
+export default NewTimerForm;
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Alarm, Timer } from '../types';
+import { createRun } from '../services/timerEngine';
+import { RingingAlarm } from '../hooks/useAlarmMonitor';
+import { expectNoAxeViolations } from '../test/axe';
+import RingingOverlay from './RingingOverlay';
+
+const NOW = Date.UTC(2025, 0, 6, 7, 0, 0);
+
+const ALARM: Alarm = {
+  id: 'wake-up',
+  label: 'Wake up',
+  time: '07:00',
+  repeat: { type: 'once' },
+  enabled: false,
+  armedAt: NOW - 60 * 60_000,
+  snoozedUntil: null,
+  lastFiredAt: NOW,
+  soundId: null,
+};
+
+const TIMER: Timer = {
+  id: 'tea',
+  label: 'Tea',
+  run: createRun({ id: 'tea', name: 'Tea', stages: [{ label: 'Tea', kind: 'work', durationSeconds: 180 }], rounds: 1 }),
+};
+
+const handlers = () => ({
+  onSnoozeAlarm: vi.fn(),
+  onDismissAlarm: vi.fn(),
+  onRestartTimer: vi.fn(),
+  onDismissTimer: vi.fn(),
+});
+
+const renderWithBackground = (alarms: RingingAlarm[], timers: Timer[]) => render(
+  <>
+    <button>Behind the overlay</button>
+    <RingingOverlay alarms={alarms} timers={timers} {...handlers()} />
+  </>
+);
+
+describe('RingingOverlay', () => {
+  it('renders nothing while nothing is ringing', () => {
+    renderWithBackground([], []);
+    expect(screen.queryByRole('alertdialog')).toBeNull();
+  });
+
+  it('has no axe violations with a ringing alarm, a missed alarm and a finished timer', async () => {
+    renderWithBackground([
+      { alarm: ALARM, dueAt: NOW, missed: false },
+      { alarm: { ...ALARM, id: 'missed', label: 'Missed one' }, dueAt: NOW - 10 * 60_000, missed: true },
+    ], [TIMER]);
+
+    expect(screen.getByRole('alertdialog', { name: 'Alarm ringing' })).toBeTruthy();
+    await expectNoAxeViolations();
+  });
+
+  it('moves focus into the dialog and keeps Tab inside it', () => {
+    renderWithBackground([{ alarm: ALARM, dueAt: NOW, missed: false }], [TIMER]);
+    const dialog = screen.getByRole('alertdialog');
+    const buttons = Array.from(dialog.querySelectorAll('button'));
+
+    expect(document.activeElement).toBe(buttons[0]);
+
+    buttons[buttons.length - 1].focus();
+    fireEvent.keyDown(buttons[buttons.length - 1], { key: 'Tab' });
+    expect(document.activeElement).toBe(buttons[0]);
+
+    fireEvent.keyDown(buttons[0], { key: 'Tab', shiftKey: true });
+    expect(document.activeElement).toBe(buttons[buttons.length - 1]);
+  });
+
+  it('pulls focus back when it moves behind the dialog', () => {
+    renderWithBackground([], [TIMER]);
+    const dialog = screen.getByRole('alertdialog', { name: 'Timer finished' });
+
+    screen.getByRole('button', { name: 'Behind the overlay', hidden: true }).focus();
+
+    expect(dialog.contains(document.activeElement)).toBe(true);
+  });
+
+  it('hands focus back once everything has been dealt with', () => {
+    const { rerender } = render(<button>Behind the overlay</button>);
+    const background = screen.getByRole('button', { name: 'Behind the overlay' });
+    background.focus();
+
+    rerender(
+      <>
+        <button>Behind the overlay</button>
+        <RingingOverlay alarms={[]} timers={[TIMER]} {...handlers()} />
+      </>
+    );
+    expect(document.activeElement).not.toBe(background);
+
+    rerender(
+      <>
+        <button>Behind the overlay</button>
+        <RingingOverlay alarms={[]} timers={[]} {...handlers()} />
+      </>
+    );
+    expect(document.activeElement).toBe(background);
+  });
+});
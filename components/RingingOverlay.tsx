@@ -0,0 +1,126 @@
+import React, { useEffect, useRef } from 'react';
+import { Timer } from '../types';
+import { ICONS, SNOOZE_MINUTES } from '../constants';
+import { settingsStore } from '../services/settingsStore';
+import { formatClockTime, formatTimeOfDay } from '../utils/units';
+import { RingingAlarm } from '../hooks/useAlarmMonitor';
+import { useStore } from '../hooks/useStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { Icon, Button } from './ui';
+
+interface RingingOverlayProps {
+    alarms: RingingAlarm[];
+    timers: Timer[];
+    onSnoozeAlarm: (id: string) => void;
+    onDismissAlarm: (id: string) => void;
+    onRestartTimer: (id: string) => void;
+    onDismissTimer: (id: string) => void;
+}
+
+/** Covers the whole app while anything is ringing, so stopping it is the only thing to do. */
+const RingingOverlay = ({ alarms, timers, onSnoozeAlarm, onDismissAlarm, onRestartTimer, onDismissTimer }: RingingOverlayProps) => {
+    const { clockFormat } = useStore(settingsStore);
+    const { t } = useTranslation();
+    const containerRef = useRef<HTMLDivElement | null>(null);
+    const open = alarms.length > 0 || timers.length > 0;
+
+    // Keeps keyboard focus inside the dialog while it is open, and hands it back to where it was once
+    // everything has been dealt with.
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!open || !container) return;
+        const previouslyFocused = document.activeElement;
+
+        const keepFocusInside = (event: FocusEvent) => {
+            if (event.target instanceof Node && !container.contains(event.target)) {
+                container.querySelector('button')?.focus();
+            }
+        };
+        document.addEventListener('focusin', keepFocusInside);
+        return () => {
+            document.removeEventListener('focusin', keepFocusInside);
+            if (previouslyFocused instanceof HTMLElement && previouslyFocused.isConnected) previouslyFocused.focus();
+        };
+    }, [open]);
+
+    // Moves focus onto the first ringing item's first action when the dialog opens, and again when
+    // the item holding focus is snoozed or stopped while others keep ringing.
+    const ringingCount = alarms.length + timers.length;
+    useEffect(() => {
+        const container = containerRef.current;
+        if (container && !container.contains(document.activeElement)) container.querySelector('button')?.focus();
+    }, [ringingCount]);
+
+    // Tab and Shift+Tab wrap around the dialog's buttons rather than leaving it.
+    const onKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        if (event.key !== 'Tab') return;
+        const buttons = Array.from(event.currentTarget.querySelectorAll('button'));
+        if (buttons.length === 0) return;
+        const [first, last] = [buttons[0], buttons[buttons.length - 1]];
+        const wrapTo = event.shiftKey
+            ? (document.activeElement === first ? last : null)
+            : (document.activeElement === last ? first : null);
+        if (!wrapTo) return;
+        event.preventDefault();
+        wrapTo.focus();
+    };
+
+    if (!open) return null;
+
+    return (
+        <div
+            ref={containerRef}
+            role="alertdialog"
+            aria-modal="true"
+            onKeyDown={onKeyDown}
+            aria-label={alarms.length > 0 ? t('alarm.ringing') : t('timer.finished')}
+            className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex flex-col items-center justify-center p-4 space-y-3 overflow-y-auto"
+        >
+            {alarms.map(({ alarm, dueAt, missed }) => (
+                <div key={alarm.id} className="w-full max-w-sm bg-red-600/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-4">
+                    <div className="flex items-center gap-3 mb-4">
+                        <Icon className="motion-safe:animate-pulse">{ICONS.ALARM}</Icon>
+                        <div>
+                            <p className="text-2xl font-mono font-bold">{formatTimeOfDay(alarm.time, clockFormat)}</p>
+                            <p className="text-sm text-red-100">{alarm.label}</p>
+                            {missed && (
+                                <p className="text-xs text-red-100/80">
+                                    {t('alarm.missedDueAt', { time: formatClockTime(new Date(dueAt), clockFormat) })}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <Button onClick={() => onSnoozeAlarm(alarm.id)} className="bg-white/20 hover:bg-white/30">
+                            {t('alarm.snoozeFor', { count: SNOOZE_MINUTES })}
+                        </Button>
+                        <Button onClick={() => onDismissAlarm(alarm.id)} className="bg-black/30 hover:bg-black/40">
+                            {t('common.stop')}
+                        </Button>
+                    </div>
+                </div>
+            ))}
+            {timers.map(timer => (
+                <div key={timer.id} className="w-full max-w-sm bg-blue-600/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-4">
+                    <div className="flex items-center gap-3 mb-4">
+                        <Icon className="motion-safe:animate-pulse">{ICONS.TIMER}</Icon>
+                        <div>
+                            <p className="text-2xl font-bold">{t('timer.timesUp')}</p>
+                            <p className="text-sm text-blue-100">{timer.label}</p>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <Button onClick={() => onRestartTimer(timer.id)} className="bg-white/20 hover:bg-white/30">
+                            {t('common.restart')}
+                        </Button>
+                        <Button onClick={() => onDismissTimer(timer.id)} className="bg-black/30 hover:bg-black/40">
+                            {t('common.stop')}
+                        </Button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default RingingOverlay;
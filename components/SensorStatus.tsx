@@ -0,0 +1,38 @@
+import React from 'react';
+import { MotionPermission } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface SensorStatusProps {
+    supported: boolean;
+    permission: MotionPermission;
+    waiting: boolean;
+    onRequestPermission: () => void;
+}
+
+/** Explains why a motion-sensor tool has nothing to show yet, or returns null once readings arrive. */
+const SensorStatus = ({ supported, permission, waiting, onRequestPermission }: SensorStatusProps) => {
+    const { t } = useTranslation();
+
+    if (!supported) {
+        return <p className="text-center text-sm text-gray-400">{t('sensor.unsupported')}</p>;
+    }
+    if (permission === 'prompt') {
+        return (
+            <div className="text-center space-y-3">
+                <p className="text-sm text-gray-300">{t('sensor.permissionNeeded')}</p>
+                <button onClick={onRequestPermission} className="px-4 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-sm font-semibold text-white">
+                    {t('orientation.enableMotion')}
+                </button>
+            </div>
+        );
+    }
+    if (permission === 'denied') {
+        return <p className="text-center text-sm text-red-400">{t('sensor.denied')}</p>;
+    }
+    if (waiting) {
+        return <p role="status" className="text-center text-sm text-gray-400">{t('sensor.waiting')}</p>;
+    }
+    return null;
+};
+
+export default SensorStatus;
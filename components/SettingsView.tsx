@@ -0,0 +1,458 @@
+import React, { useState } from 'react';
+import { ClockFormat, DeviceOrientation, LocaleId, NavigationMode, TemperatureUnit, ToolId, WindSpeedUnit } from '../types';
+import { ICONS, ORIENTATION_LABEL_KEYS } from '../constants';
+import { MessageKey } from '../locales/en';
+import { getAvailableTools } from '../tools';
+import {
+    settingsStore, updateSettings, updateWeatherAlertSettings, updateSoundSettings, setOrientationTool, DEFAULT_SETTINGS,
+} from '../services/settingsStore';
+import { requestNotificationPermission } from '../services/notificationService';
+import { hasGeminiApiKey } from '../services/geminiClient';
+import { customSoundStore, addCustomSound, removeCustomSound, MAX_CUSTOM_SOUND_BYTES } from '../services/soundLibrary';
+import { BackupError, SoundError } from '../services/errors';
+import { BackupSection, ParsedBackup, exportBackup, parseBackup, restoreBackup } from '../services/backup';
+import { SUPPORTED_LOCALES, detectLocale, isLocaleId, languageName } from '../services/i18n';
+import {
+    TEMPERATURE_UNIT_LABELS, WIND_SPEED_UNIT_LABELS, convertTemperature, convertWindSpeed, temperatureToCelsius, windSpeedToKmh,
+} from '../utils/units';
+import { useStore } from '../hooks/useStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { Icon, Card } from './ui';
+import SoundPicker from './SoundPicker';
+
+interface SegmentedControlProps<T extends string> {
+    label: string;
+    value: T;
+    options: { value: T; label: string }[];
+    onChange: (value: T) => void;
+}
+
+export const SegmentedControl = <T extends string>({ label, value, options, onChange }: SegmentedControlProps<T>) => (
+    <div>
+        <p className="text-sm font-semibold text-gray-400 mb-2">{label}</p>
+        <div role="radiogroup" aria-label={label} className="grid gap-2" style={{ gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))` }}>
+            {options.map(option => (
+                <button
+                    key={option.value}
+                    role="radio"
+                    aria-checked={value === option.value}
+                    onClick={() => onChange(option.value)}
+                    className={`py-2 rounded-lg text-sm font-medium transition-colors ${value === option.value ? 'bg-blue-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+const TEMPERATURE_OPTIONS = (Object.keys(TEMPERATURE_UNIT_LABELS) as TemperatureUnit[])
+    .map(unit => ({ value: unit, label: TEMPERATURE_UNIT_LABELS[unit] }));
+
+const WIND_SPEED_OPTIONS = (Object.keys(WIND_SPEED_UNIT_LABELS) as WindSpeedUnit[])
+    .map(unit => ({ value: unit, label: WIND_SPEED_UNIT_LABELS[unit] }));
+
+const CLOCK_FORMAT_OPTIONS: { value: ClockFormat; labelKey: MessageKey }[] = [
+    { value: '12h', labelKey: 'settings.clock12h' },
+    { value: '24h', labelKey: 'settings.clock24h' },
+];
+
+const NAVIGATION_MODE_OPTIONS: { value: NavigationMode; labelKey: MessageKey }[] = [
+    { value: 'orientation', labelKey: 'settings.navigationOrientation' },
+    { value: 'manual', labelKey: 'settings.navigationManual' },
+];
+
+interface ThresholdRowProps {
+    label: string;
+    unit: string;
+    value: number | null; // in the display unit; null when the check is off
+    fallback: number; // used when the check is switched back on
+    onChange: (value: number | null) => void;
+}
+
+const ThresholdRow = ({ label, unit, value, fallback, onChange }: ThresholdRowProps) => {
+    const { t } = useTranslation();
+
+    return (
+        <div className="flex items-center justify-between text-sm">
+            <label className="flex items-center gap-2 text-gray-200">
+                <input type="checkbox" checked={value !== null} onChange={(e) => onChange(e.target.checked ? fallback : null)} />
+                <span>{label}</span>
+            </label>
+            <span className="flex items-center gap-1">
+                <input
+                    type="number"
+                    aria-label={t('settings.threshold', { label })}
+                    value={value === null ? '' : Math.round(value)}
+                    disabled={value === null}
+                    onChange={(e) => e.target.value !== '' && onChange(Number(e.target.value))}
+                    className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-end text-white disabled:opacity-40"
+                />
+                <span className="w-10 text-gray-400">{unit}</span>
+            </span>
+        </div>
+    );
+};
+
+const WeatherAlertSettingsSection = () => {
+    const { weatherAlerts, temperatureUnit, windSpeedUnit } = useStore(settingsStore);
+    const defaults = DEFAULT_SETTINGS.weatherAlerts;
+    const temperatureLabel = TEMPERATURE_UNIT_LABELS[temperatureUnit];
+    const toDisplayTemperature = (celsius: number | null) => celsius === null ? null : convertTemperature(celsius, temperatureUnit);
+    const fromDisplayTemperature = (value: number | null) => value === null ? null : temperatureToCelsius(value, temperatureUnit);
+    const { t } = useTranslation();
+
+    const toggleBackgroundCheck = () => {
+        if (!weatherAlerts.backgroundCheck) requestNotificationPermission();
+        updateWeatherAlertSettings({ backgroundCheck: !weatherAlerts.backgroundCheck });
+    };
+
+    return (
+        <div>
+            <p className="text-sm font-semibold text-gray-400 mb-2">{t('settings.weatherAlerts')}</p>
+            <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-200">{t('settings.backgroundCheck')}</span>
+                    <button
+                        role="switch"
+                        aria-checked={weatherAlerts.backgroundCheck}
+                        aria-label={t('settings.backgroundCheckField')}
+                        onClick={toggleBackgroundCheck}
+                        className={`w-11 h-6 rounded-full p-0.5 transition-colors flex-shrink-0 ${weatherAlerts.backgroundCheck ? 'bg-blue-500' : 'bg-gray-600'}`}
+                    >
+                        <span className={`block w-5 h-5 rounded-full bg-white transition-transform ${weatherAlerts.backgroundCheck ? 'translate-x-5 rtl:-translate-x-5' : ''}`} />
+                    </button>
+                </div>
+                <ThresholdRow
+                    label={t('settings.frostBelow')}
+                    unit={temperatureLabel}
+                    value={toDisplayTemperature(weatherAlerts.frostBelowC)}
+                    fallback={convertTemperature(defaults.frostBelowC ?? 0, temperatureUnit)}
+                    onChange={value => updateWeatherAlertSettings({ frostBelowC: fromDisplayTemperature(value) })}
+                />
+                <ThresholdRow
+                    label={t('settings.heatAbove')}
+                    unit={temperatureLabel}
+                    value={toDisplayTemperature(weatherAlerts.heatAboveC)}
+                    fallback={convertTemperature(defaults.heatAboveC ?? 35, temperatureUnit)}
+                    onChange={value => updateWeatherAlertSettings({ heatAboveC: fromDisplayTemperature(value) })}
+                />
+                <ThresholdRow
+                    label={t('settings.windAbove')}
+                    unit={WIND_SPEED_UNIT_LABELS[windSpeedUnit]}
+                    value={weatherAlerts.windAboveKmh === null ? null : convertWindSpeed(weatherAlerts.windAboveKmh, windSpeedUnit)}
+                    fallback={convertWindSpeed(50, windSpeedUnit)}
+                    onChange={value => updateWeatherAlertSettings({ windAboveKmh: value === null ? null : windSpeedToKmh(value, windSpeedUnit) })}
+                />
+                <ThresholdRow
+                    label={t('settings.rainChanceFrom')}
+                    unit="%"
+                    value={weatherAlerts.rainChanceAbove}
+                    fallback={70}
+                    onChange={value => updateWeatherAlertSettings({ rainChanceAbove: value })}
+                />
+            </div>
+        </div>
+    );
+};
+
+const WeatherBriefingSetting = ({ enabled }: { enabled: boolean }) => {
+    const { t } = useTranslation();
+
+    return (
+        <div>
+            <div className="flex items-center justify-between text-sm">
+                <span className="font-semibold text-gray-400">{t('settings.weatherBriefing')}</span>
+                <button
+                    role="switch"
+                    aria-checked={enabled}
+                    aria-label={t('settings.weatherBriefing')}
+                    onClick={() => updateSettings({ weatherBriefing: !enabled })}
+                    className={`w-11 h-6 rounded-full p-0.5 transition-colors flex-shrink-0 ${enabled ? 'bg-blue-500' : 'bg-gray-600'}`}
+                >
+                    <span className={`block w-5 h-5 rounded-full bg-white transition-transform ${enabled ? 'translate-x-5 rtl:-translate-x-5' : ''}`} />
+                </button>
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+                {t(hasGeminiApiKey() ? 'settings.weatherBriefingDescription' : 'settings.weatherBriefingNeedsKey')}
+            </p>
+        </div>
+    );
+};
+
+const RAMP_SECONDS = [0, 10, 30, 60];
+
+const soundErrorMessage = (error: unknown): MessageKey => {
+    if (!(error instanceof SoundError)) return 'settings.soundError.unknown';
+    switch (error.kind) {
+        case 'too-large': return 'settings.soundError.tooLarge';
+        case 'unsupported': return 'settings.soundError.unsupported';
+        case 'storage': return 'settings.soundError.storage';
+    }
+};
+
+const SoundSettingsSection = () => {
+    const { sounds } = useStore(settingsStore);
+    const customSounds = useStore(customSoundStore);
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { t } = useTranslation();
+
+    const upload = async (file: File | undefined) => {
+        if (!file) return;
+        setUploading(true);
+        setError(null);
+        try {
+            await addCustomSound(file);
+        } catch (err) {
+            setError(t(soundErrorMessage(err), { name: file.name, size: MAX_CUSTOM_SOUND_BYTES / 1024 / 1024 }));
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const remove = (id: string) => {
+        // Alarms that used the sound fall back to the default when they ring.
+        if (sounds.alarmSoundId === id) updateSoundSettings({ alarmSoundId: DEFAULT_SETTINGS.sounds.alarmSoundId });
+        if (sounds.timerSoundId === id) updateSoundSettings({ timerSoundId: DEFAULT_SETTINGS.sounds.timerSoundId });
+        removeCustomSound(id);
+    };
+
+    return (
+        <div>
+            <p className="text-sm font-semibold text-gray-400 mb-2">{t('settings.sounds')}</p>
+            <div className="space-y-3">
+                <SoundPicker label={t('settings.alarmSound')} value={sounds.alarmSoundId} onChange={soundId => soundId && updateSoundSettings({ alarmSoundId: soundId })} />
+                <SoundPicker label={t('settings.timerSound')} value={sounds.timerSoundId} onChange={soundId => soundId && updateSoundSettings({ timerSoundId: soundId })} />
+                <label className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-200">{t('settings.volume')}</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={sounds.volume}
+                        onChange={(e) => updateSoundSettings({ volume: Number(e.target.value) })}
+                        className="flex-1 max-w-[10rem] accent-blue-500"
+                    />
+                </label>
+                <SegmentedControl
+                    label={t('settings.fadeIn')}
+                    value={String(sounds.rampSeconds)}
+                    options={RAMP_SECONDS.map(seconds => ({
+                        value: String(seconds),
+                        label: seconds === 0 ? t('settings.fadeOff') : t('settings.fadeSeconds', { count: seconds }),
+                    }))}
+                    onChange={value => updateSoundSettings({ rampSeconds: Number(value) })}
+                />
+                <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-200">{t('settings.vibrate')}</span>
+                    <button
+                        role="switch"
+                        aria-checked={sounds.vibrate}
+                        aria-label={t('settings.vibrate')}
+                        onClick={() => updateSoundSettings({ vibrate: !sounds.vibrate })}
+                        className={`w-11 h-6 rounded-full p-0.5 transition-colors flex-shrink-0 ${sounds.vibrate ? 'bg-blue-500' : 'bg-gray-600'}`}
+                    >
+                        <span className={`block w-5 h-5 rounded-full bg-white transition-transform ${sounds.vibrate ? 'translate-x-5 rtl:-translate-x-5' : ''}`} />
+                    </button>
+                </div>
+                {customSounds.length > 0 && (
+                    <ul className="space-y-1">
+                        {customSounds.map(sound => (
+                            <li key={sound.id} className="flex items-center justify-between text-sm bg-gray-800/50 rounded-lg px-3 py-1.5">
+                                <span className="truncate text-gray-200">{sound.name}</span>
+                                <button onClick={() => remove(sound.id)} aria-label={t('settings.deleteSound', { name: sound.name })} className="text-gray-500 hover:text-red-400">✕</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <label className={`block text-center py-2 rounded-xl border border-dashed border-gray-600 text-sm ${uploading ? 'text-gray-500' : 'text-blue-400 hover:text-blue-300 hover:border-gray-500 cursor-pointer'}`}>
+                    {t(uploading ? 'settings.addingSound' : 'settings.addSound')}
+                    <input
+                        type="file"
+                        accept="audio/*"
+                        disabled={uploading}
+                        onChange={(e) => { upload(e.target.files?.[0]); e.target.value = ''; }}
+                        className="sr-only"
+                    />
+                </label>
+                {error && <p role="alert" className="text-xs text-red-400">{error}</p>}
+            </div>
+        </div>
+    );
+};
+
+const BACKUP_SECTION_LABEL_KEYS: Record<BackupSection, MessageKey> = {
+    settings: 'settings.backupSection.settings',
+    alarms: 'settings.backupSection.alarms',
+    timerPrograms: 'settings.backupSection.timerPrograms',
+    stopwatchHistory: 'settings.backupSection.stopwatchHistory',
+    locations: 'settings.backupSection.locations',
+    worldClocks: 'settings.backupSection.worldClocks',
+};
+
+const backupErrorMessage = (error: unknown): MessageKey => {
+    if (!(error instanceof BackupError)) return 'settings.backupError.unknown';
+    switch (error.kind) {
+        case 'invalid-file': return 'settings.backupError.invalidFile';
+        case 'unsupported-version': return 'settings.backupError.unsupportedVersion';
+    }
+};
+
+const BackupSettingsSection = () => {
+    const [pending, setPending] = useState<ParsedBackup | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const { t, locale } = useTranslation();
+
+    const choose = async (file: File | undefined) => {
+        if (!file) return;
+        setMessage(null);
+        setError(null);
+        try {
+            setPending(parseBackup(await file.text()));
+        } catch (err) {
+            setError(backupErrorMessage(err));
+        }
+    };
+
+    const sectionList = (backup: ParsedBackup) => new Intl.ListFormat(locale.tag).format(
+        (Object.keys(backup.data) as BackupSection[]).map(section => t(BACKUP_SECTION_LABEL_KEYS[section]))
+    );
+
+    const restore = () => {
+        if (!pending) return;
+        restoreBackup(pending.data);
+        const restored = t('settings.restored', { sections: sectionList(pending) });
+        setMessage(pending.skippedEntries > 0
+            ? `${restored} ${t('settings.skippedEntries', { count: pending.skippedEntries })}`
+            : restored);
+        setPending(null);
+    };
+
+    return (
+        <div>
+            <p className="text-sm font-semibold text-gray-400 mb-2">{t('settings.backup')}</p>
+            <p className="text-xs text-gray-400 mb-2">
+                {t('settings.backupDescription')}
+            </p>
+            {pending ? (
+                <div role="alertdialog" aria-label={t('settings.restoreBackup')} className="bg-gray-800/50 rounded-lg p-3 space-y-3 text-sm">
+                    <p className="text-gray-200">
+                        {pending.exportedAt
+                            ? t('settings.restoreConfirmFrom', {
+                                sections: sectionList(pending),
+                                date: new Date(pending.exportedAt).toLocaleString(locale.tag, { dateStyle: 'medium', timeStyle: 'short' }),
+                            })
+                            : t('settings.restoreConfirm', { sections: sectionList(pending) })}
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                        <button onClick={() => setPending(null)} className="py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200">{t('common.cancel')}</button>
+                        <button onClick={restore} className="py-2 rounded-lg bg-red-500 hover:bg-red-600 font-semibold text-white">{t('settings.restore')}</button>
+                    </div>
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                    <button onClick={() => exportBackup()} className="py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200">{t('settings.export')}</button>
+                    <label className="py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 text-center cursor-pointer">
+                        {t('settings.import')}
+                        <input
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={(e) => { choose(e.target.files?.[0]); e.target.value = ''; }}
+                            className="sr-only"
+                        />
+                    </label>
+                </div>
+            )}
+            <div aria-live="polite" className="text-xs mt-2">
+                {message && <p className="text-green-300">{message}</p>}
+                {error && <p className="text-red-400">{t(error)}</p>}
+            </div>
+        </div>
+    );
+};
+
+const LanguageSetting = ({ value }: { value: LocaleId | null }) => {
+    const { t, locale } = useTranslation();
+
+    // Each language is listed in its own name, so it can be found without reading the current one.
+    return (
+        <label className="flex items-center justify-between text-sm">
+            <span className="font-semibold text-gray-400">{t('settings.language')}</span>
+            <select
+                value={value ?? ''}
+                onChange={(e) => updateSettings({ locale: isLocaleId(e.target.value) ? e.target.value : null })}
+                className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white"
+            >
+                <option value="">{t('settings.languageAuto', { language: languageName(detectLocale(), locale.tag) })}</option>
+                {SUPPORTED_LOCALES.map(id => (
+                    <option key={id} value={id} lang={id}>{languageName(id)}</option>
+                ))}
+            </select>
+        </label>
+    );
+};
+
+const SettingsView = () => {
+    const settings = useStore(settingsStore);
+    const { t } = useTranslation();
+
+    return (
+        <Card title={t('nav.settings')} icon={<Icon>{ICONS.SETTINGS}</Icon>}>
+            <div className="space-y-5">
+                <LanguageSetting value={settings.locale} />
+                <SegmentedControl
+                    label={t('settings.temperature')}
+                    value={settings.temperatureUnit}
+                    options={TEMPERATURE_OPTIONS}
+                    onChange={temperatureUnit => updateSettings({ temperatureUnit })}
+                />
+                <SegmentedControl
+                    label={t('settings.windSpeed')}
+                    value={settings.windSpeedUnit}
+                    options={WIND_SPEED_OPTIONS}
+                    onChange={windSpeedUnit => updateSettings({ windSpeedUnit })}
+                />
+                <SegmentedControl
+                    label={t('settings.clock')}
+                    value={settings.clockFormat}
+                    options={CLOCK_FORMAT_OPTIONS.map(({ value, labelKey }) => ({ value, label: t(labelKey) }))}
+                    onChange={clockFormat => updateSettings({ clockFormat })}
+                />
+                <SegmentedControl
+                    label={t('settings.navigation')}
+                    value={settings.navigationMode}
+                    options={NAVIGATION_MODE_OPTIONS.map(({ value, labelKey }) => ({ value, label: t(labelKey) }))}
+                    onChange={navigationMode => updateSettings({ navigationMode })}
+                />
+                <div>
+                    <p className="text-sm font-semibold text-gray-400 mb-2">{t('settings.orientationTools')}</p>
+                    <div className="space-y-2">
+                        {(Object.keys(ORIENTATION_LABEL_KEYS) as DeviceOrientation[]).map(orientation => (
+                            <label key={orientation} className="flex items-center justify-between text-sm">
+                                <span className="text-gray-200">{t(ORIENTATION_LABEL_KEYS[orientation])}</span>
+                                <select
+                                    value={settings.orientationTools[orientation]}
+                                    onChange={(e) => setOrientationTool(orientation, e.target.value as ToolId)}
+                                    className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white"
+                                >
+                                    {getAvailableTools().map(tool => (
+                                        <option key={tool.id} value={tool.id}>{t(tool.labelKey)}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <SoundSettingsSection />
+                <WeatherBriefingSetting enabled={settings.weatherBriefing} />
+                <WeatherAlertSettingsSection />
+                <BackupSettingsSection />
+            </div>
+        </Card>
+    );
+};
+
+export default SettingsView;
@@ -0,0 +1,80 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { customSoundStore, getSoundOptions, playSound } from '../services/soundLibrary';
+import { SoundHandle } from '../services/soundEngine';
+import { settingsStore } from '../services/settingsStore';
+import { useStore } from '../hooks/useStore';
+import { useTranslation } from '../hooks/useTranslation';
+
+const DEFAULT_OPTION = '';
+
+interface SoundPickerProps {
+    label: string;
+    value: string | null;
+    onChange: (soundId: string | null) => void;
+    defaultSoundId?: string; // when set, offers a "Default" option that maps to null
+}
+
+const SoundPicker = ({ label, value, onChange, defaultSoundId }: SoundPickerProps) => {
+    const customSounds = useStore(customSoundStore);
+    const { sounds } = useStore(settingsStore);
+    const [previewing, setPreviewing] = useState(false);
+    const previewRef = useRef<SoundHandle | null>(null);
+    const { t, locale } = useTranslation();
+    const options = getSoundOptions(customSounds, t);
+
+    const stopPreview = () => {
+        previewRef.current?.stop();
+        previewRef.current = null;
+        setPreviewing(false);
+    };
+
+    useEffect(() => () => previewRef.current?.stop(), []);
+
+    const togglePreview = () => {
+        if (previewing) {
+            stopPreview();
+            return;
+        }
+        const soundId = value ?? defaultSoundId;
+        if (!soundId) return;
+        const preview = playSound(soundId, sounds.volume, () => {
+            // A preview that was stopped or replaced meanwhile must not reset the current one.
+            if (previewRef.current !== preview) return;
+            previewRef.current = null;
+            setPreviewing(false);
+        });
+        previewRef.current = preview;
+        setPreviewing(true);
+    };
+
+    return (
+        <div className="flex items-center gap-2 text-sm">
+            <label className="flex-1 flex items-center justify-between gap-2">
+                <span className="text-gray-200">{label}</span>
+                <select
+                    value={value ?? DEFAULT_OPTION}
+                    onChange={(e) => {
+                        stopPreview();
+                        onChange(e.target.value === DEFAULT_OPTION ? null : e.target.value);
+                    }}
+                    className="min-w-0 max-w-[10rem] bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white"
+                >
+                    {defaultSoundId && <option value={DEFAULT_OPTION}>{t('sound.default')}</option>}
+                    {options.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                </select>
+            </label>
+            <button
+                type="button"
+                onClick={togglePreview}
+                aria-label={previewing ? t('sound.stopPreview') : t('sound.preview', { label: label.toLocaleLowerCase(locale.tag) })}
+                className="w-8 h-8 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200"
+            >
+                {previewing ? '■' : '▶'}
+            </button>
+        </div>
+    );
+};
+
+export default SoundPicker;
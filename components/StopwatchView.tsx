@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { StopwatchSession } from '../types';
+import { ICONS } from '../constants';
+import {
+    stopwatchStore,
+    stopwatchHistoryStore,
+    startStopwatch,
+    stopStopwatch,
+    lapStopwatch,
+    resetStopwatch,
+    deleteStopwatchSession,
+} from '../services/stopwatchStore';
+import { getElapsed, isStopwatchRunning } from '../services/stopwatchEngine';
+import { getLapDurations, computeLapStats } from '../utils/lapStats';
+import { exportSession } from '../utils/sessionExport';
+import { formatStopwatchTime } from '../utils/duration';
+import { useStore } from '../hooks/useStore';
+import { useNow } from '../hooks/useNow';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useTranslation } from '../hooks/useTranslation';
+import { announce } from '../services/announcer';
+import { Icon, Card, Button } from './ui';
+
+const LapList = ({ splits }: { splits: number[] }) => {
+    const durations = getLapDurations(splits);
+    const stats = computeLapStats(durations);
+    const { t } = useTranslation();
+
+    return (
+        <div className="mt-4">
+            {stats && (
+                <div className="flex justify-between text-xs text-gray-400 mb-2 px-1">
+                    <span>{t('stopwatch.average')} <span className="font-mono text-gray-200">{formatStopwatchTime(stats.averageMs)}</span></span>
+                    <span>±σ <span className="font-mono text-gray-200">{formatStopwatchTime(stats.standardDeviationMs)}</span></span>
+                </div>
+            )}
+            <ol aria-label={t('stopwatch.laps')} className="max-h-36 overflow-y-auto space-y-2 pe-2">
+                {durations.map((duration, index) => ({ duration, index })).reverse().map(({ duration, index }) => {
+                    const highlight = stats && index === stats.fastestIndex ? 'text-green-400'
+                        : stats && index === stats.slowestIndex ? 'text-red-400'
+                        : 'text-gray-300';
+                    return (
+                        <li key={index} className="flex justify-between items-center bg-gray-800/50 p-2 rounded-md text-sm">
+                            <span className="font-medium text-gray-400">{t('stopwatch.lapNumber', { number: index + 1 })}</span>
+                            <span className={`font-mono ${highlight}`}>
+                                {formatStopwatchTime(duration)}
+                                {stats && index === stats.fastestIndex && <span className="sr-only"> {t('stopwatch.fastest')}</span>}
+                                {stats && index === stats.slowestIndex && <span className="sr-only"> {t('stopwatch.slowest')}</span>}
+                            </span>
+                            <span className="font-mono text-white">{formatStopwatchTime(splits[index])}</span>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+const SessionHistory = ({ sessions }: { sessions: StopwatchSession[] }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const { t, locale } = useTranslation();
+
+    if (sessions.length === 0) {
+        return <p className="mt-4 text-center text-sm text-gray-400">{t('stopwatch.noSessions')}</p>;
+    }
+
+    return (
+        <ul className="mt-4 max-h-64 overflow-y-auto space-y-2 pe-2">
+            {sessions.map(session => (
+                <li key={session.id} className="bg-gray-800/50 p-3 rounded-lg text-sm">
+                    <button onClick={() => setExpandedId(expandedId === session.id ? null : session.id)} className="w-full flex justify-between items-center text-start">
+                        <span>
+                            <span className="block text-gray-200">{new Date(session.startedAt).toLocaleString(locale.tag, { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                            <span className="block text-xs text-gray-400">{t('stopwatch.lapCount', { count: session.laps.length })}</span>
+                        </span>
+                        <span className="font-mono text-white">{formatStopwatchTime(session.totalMs)}</span>
+                    </button>
+                    {expandedId === session.id && (
+                        <>
+                            {session.laps.length > 0 && <LapList splits={session.laps} />}
+                            <div className="mt-3 flex justify-end gap-3 text-xs">
+                                <button onClick={() => exportSession(session, 'csv')} className="text-blue-400 hover:text-blue-300">{t('stopwatch.exportCsv')}</button>
+                                <button onClick={() => exportSession(session, 'json')} className="text-blue-400 hover:text-blue-300">{t('stopwatch.exportJson')}</button>
+                                <button onClick={() => deleteStopwatchSession(session.id)} className="text-gray-500 hover:text-red-400">{t('common.delete')}</button>
+                            </div>
+                        </>
+                    )}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+const StopwatchView = () => {
+    const state = useStore(stopwatchStore);
+    const sessions = useStore(stopwatchHistoryStore);
+    const [showHistory, setShowHistory] = useState(false);
+    const { t } = useTranslation();
+    const isRunning = isStopwatchRunning(state);
+    const now = useNow(10, { enabled: isRunning });
+
+    // `now` lags behind by up to one tick right after starting.
+    const time = getElapsed(state, Math.max(now, state.startedAt ?? 0));
+
+    const toggle = () => {
+        if (isRunning) {
+            stopStopwatch();
+            announce(t('stopwatch.announceStopped', { time: formatStopwatchTime(getElapsed(stopwatchStore.get(), Date.now())) }));
+        } else {
+            startStopwatch();
+            announce(t('stopwatch.announceStarted'));
+        }
+    };
+
+    const lap = () => {
+        if (!isRunning) return;
+        lapStopwatch();
+        const { laps } = stopwatchStore.get();
+        announce(t('stopwatch.announceLap', { number: laps.length, time: formatStopwatchTime(getLapDurations(laps)[laps.length - 1]) }));
+    };
+
+    useKeyboardShortcuts({ Space: toggle, l: lap });
+
+    return (
+        <Card title={t('stopwatch.title')} icon={<Icon>{ICONS.STOPWATCH}</Icon>}>
+            <div className="text-center mb-6">
+                <p role="timer" aria-label={t('stopwatch.elapsed')} className="text-7xl font-mono font-bold text-white tracking-tighter">{formatStopwatchTime(time)}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-4 mb-6">
+                <Button onClick={toggle} keyShortcut="Space" className={isRunning ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600'}>
+                    {isRunning ? t('common.stop') : t('common.start')}
+                </Button>
+                <Button onClick={lap} disabled={!isRunning} keyShortcut="L" className="bg-gray-600 hover:bg-gray-700">
+                    {t('stopwatch.lap')}
+                </Button>
+            </div>
+             <div className="flex justify-center gap-6">
+                <button onClick={() => resetStopwatch()} className="text-gray-400 hover:text-white transition-colors">{t('common.reset')}</button>
+                <button onClick={() => setShowHistory(!showHistory)} aria-expanded={showHistory} className="text-gray-400 hover:text-white transition-colors">
+                    {showHistory ? t('stopwatch.hideHistory') : t('stopwatch.history', { count: sessions.length })}
+                </button>
+            </div>
+            {showHistory ? <SessionHistory sessions={sessions} /> : state.laps.length > 0 && <LapList splits={state.laps} />}
+        </Card>
+    );
+};
+
+export default StopwatchView;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { TimerProgram, TimerStage } from '../types';
+import { saveTimerProgram } from '../services/timerProgramStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from './ui';
+
+interface TimerProgramEditorProps {
+    program: TimerProgram | null;
+    onDone: (saved: TimerProgram | null) => void;
+}
+
+const inputClass = 'bg-gray-700 border border-gray-600 rounded-lg p-2 text-white';
+
+const TimerProgramEditor = ({ program, onDone }: TimerProgramEditorProps) => {
+    const { t } = useTranslation();
+    const newStage = (): TimerStage => ({ label: t('timerProgram.work'), kind: 'work', durationSeconds: 60 });
+    const [name, setName] = useState(program?.name ?? '');
+    const [rounds, setRounds] = useState(program?.rounds ?? 1);
+    const [stages, setStages] = useState<TimerStage[]>(() => program?.stages ?? [newStage()]);
+
+    const updateStage = (index: number, changes: Partial<TimerStage>) => {
+        setStages(prev => prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+    };
+
+    const setStageDuration = (index: number, minutes: number, seconds: number) => {
+        updateStage(index, { durationSeconds: Math.max(0, minutes) * 60 + Math.min(Math.max(0, seconds), 59) });
+    };
+
+    const canSave = name.trim() !== '' && rounds >= 1 && stages.length > 0 && stages.every(stage => stage.durationSeconds > 0);
+
+    const save = () => {
+        onDone(saveTimerProgram({
+            id: program?.id,
+            name: name.trim(),
+            rounds,
+            stages: stages.map(stage => ({ ...stage, label: stage.label.trim() || t(stage.kind === 'work' ? 'timerProgram.work' : 'timerProgram.rest') })),
+        }));
+    };
+
+    return (
+        <div className="space-y-3">
+            <input
+                type="text"
+                aria-label={t('timerProgram.name')}
+                placeholder={t('timerProgram.name')}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={`${inputClass} w-full`}
+            />
+            <ul className="max-h-56 overflow-y-auto space-y-2 pe-2">
+                {stages.map((stage, index) => (
+                    <li key={index} className="bg-gray-800/50 rounded-lg p-2 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                aria-label={t('timerProgram.stageName', { number: index + 1 })}
+                                value={stage.label}
+                                onChange={(e) => updateStage(index, { label: e.target.value })}
+                                className={`${inputClass} flex-1 min-w-0`}
+                            />
+                            <button
+                                onClick={() => updateStage(index, { kind: stage.kind === 'work' ? 'rest' : 'work' })}
+                                aria-label={t('timerProgram.stageType', { number: index + 1 })}
+                                className={`px-3 py-2 rounded-lg text-xs font-semibold ${stage.kind === 'work' ? 'bg-orange-500/80' : 'bg-teal-500/80'}`}
+                            >
+                                {t(stage.kind === 'work' ? 'timerProgram.work' : 'timerProgram.rest')}
+                            </button>
+                            <button
+                                onClick={() => setStages(prev => prev.filter((_, i) => i !== index))}
+                                disabled={stages.length === 1}
+                                aria-label={t('timerProgram.removeStage', { number: index + 1 })}
+                                className="text-gray-500 hover:text-red-400 disabled:opacity-30"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                        <div className="flex items-center gap-2 text-sm text-gray-400">
+                            <input
+                                type="number"
+                                min={0}
+                                aria-label={t('timerProgram.stageMinutes', { number: index + 1 })}
+                                value={Math.floor(stage.durationSeconds / 60)}
+                                onChange={(e) => setStageDuration(index, Number(e.target.value), stage.durationSeconds % 60)}
+                                className={`${inputClass} w-20 text-center`}
+                            />
+                            <span>{t('timerProgram.minutesUnit')}</span>
+                            <input
+                                type="number"
+                                min={0}
+                                max={59}
+                                aria-label={t('timerProgram.stageSeconds', { number: index + 1 })}
+                                value={stage.durationSeconds % 60}
+                                onChange={(e) => setStageDuration(index, Math.floor(stage.durationSeconds / 60), Number(e.target.value))}
+                                className={`${inputClass} w-20 text-center`}
+                            />
+                            <span>{t('timerProgram.secondsUnit')}</span>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            <div className="flex items-center justify-between text-sm">
+                <button onClick={() => setStages(prev => [...prev, newStage()])} className="text-blue-400 hover:text-blue-300">{t('timerProgram.addStage')}</button>
+                <label className="flex items-center gap-2 text-gray-400">
+                    <span>{t('timerProgram.rounds')}</span>
+                    <input
+                        type="number"
+                        min={1}
+                        value={rounds}
+                        onChange={(e) => setRounds(Math.max(1, Math.floor(Number(e.target.value))))}
+                        className={`${inputClass} w-16 text-center`}
+                    />
+                </label>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <Button onClick={() => onDone(null)} className="bg-gray-600 hover:bg-gray-700">{t('common.cancel')}</Button>
+                <Button onClick={save} disabled={!canSave} className="bg-blue-500 hover:bg-blue-600">{t('common.save')}</Button>
+            </div>
+        </div>
+    );
+};
+
+export default TimerProgramEditor;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Timer } from '../types';
+import { ICONS } from '../constants';
+import { settingsStore } from '../services/settingsStore';
+import { timerStore, startTimer, pauseTimer, resetTimer, removeTimer, skipTimerStep, previousTimerStep } from '../services/timerStore';
+import { getCurrentStep, getRemainingMs, getSteps, isCountdownRunning } from '../services/timerEngine';
+import { requestNotificationPermission } from '../services/notificationService';
+import { formatClockTime } from '../utils/units';
+import { formatCountdown } from '../utils/duration';
+import { useStore } from '../hooks/useStore';
+import { useNow } from '../hooks/useNow';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useTranslation } from '../hooks/useTranslation';
+import { Icon, Card } from './ui';
+import NewTimerForm from './NewTimerForm';
+
+/** When the whole program will finish, counting the current step's remaining time and every step after it. */
+const getEndsAt = ({ run }: Timer, now: number) => {
+    const later = getSteps(run.program).slice(run.stepIndex + 1);
+    return now + getRemainingMs(run.countdown, now) + later.reduce((total, step) => total + step.durationSeconds * 1000, 0);
+};
+
+const controlClass = 'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-30';
+
+interface TimerRowProps {
+    timer: Timer;
+    now: number;
+}
+
+const toggleTimer = (timer: Timer) => {
+    if (isCountdownRunning(timer.run.countdown)) {
+        pauseTimer(timer.id);
+    } else {
+        requestNotificationPermission();
+        startTimer(timer.id);
+    }
+};
+
+const TimerRow = ({ timer, now }: TimerRowProps) => {
+    const { clockFormat } = useStore(settingsStore);
+    const { t } = useTranslation();
+    const { run } = timer;
+    const running = isCountdownRunning(run.countdown);
+    const steps = getSteps(run.program);
+    const step = getCurrentStep(run);
+
+    return (
+        <div className={`rounded-xl p-3 ${run.finished ? 'bg-blue-500/20 border border-blue-400/40' : 'bg-gray-800/50'}`}>
+            <div className="flex items-center justify-between">
+                <p className="font-semibold truncate">{timer.label}</p>
+                <button onClick={() => removeTimer(timer.id)} aria-label={t('timer.remove', { label: timer.label })} className="text-gray-500 hover:text-red-400">✕</button>
+            </div>
+            {steps.length > 1 && !run.finished && (
+                <p className="text-xs">
+                    <span className={`font-semibold ${step.kind === 'work' ? 'text-orange-400' : 'text-teal-400'}`}>{step.label}</span>
+                    <span className="text-gray-400"> · {t('timer.progress', { round: step.round, rounds: run.program.rounds, step: run.stepIndex + 1, steps: steps.length })}</span>
+                </p>
+            )}
+            <div className="flex items-end justify-between mt-1">
+                <div>
+                    <p role="timer" aria-label={t('timer.remaining', { label: timer.label })} className="text-4xl font-mono font-bold tracking-tighter">
+                        {run.finished ? t('timer.done') : formatCountdown(getRemainingMs(run.countdown, now))}
+                    </p>
+                    <p className={`text-xs text-gray-400 h-4 ${running ? '' : 'invisible'}`}>
+                        {running ? t('timer.endsAt', { time: formatClockTime(new Date(getEndsAt(timer, now)), clockFormat) }) : ''}
+                    </p>
+                </div>
+                <div className="flex gap-1">
+                    {steps.length > 1 && !run.finished && (
+                        <>
+                            <button onClick={() => previousTimerStep(timer.id)} aria-label={t('timer.previousStep')} className={`${controlClass} bg-gray-700 hover:bg-gray-600`}>⏮</button>
+                            <button onClick={() => skipTimerStep(timer.id)} disabled={run.stepIndex === steps.length - 1} aria-label={t('timer.skipStep')} className={`${controlClass} bg-gray-700 hover:bg-gray-600`}>⏭</button>
+                        </>
+                    )}
+                    <button
+                        onClick={() => toggleTimer(timer)}
+                        className={`${controlClass} text-white ${running ? 'bg-orange-500 hover:bg-orange-600' : 'bg-blue-500 hover:bg-blue-600'}`}
+                    >
+                        {running ? t('common.pause') : run.finished ? t('common.restart') : t('common.start')}
+                    </button>
+                    <button onClick={() => resetTimer(timer.id)} className={`${controlClass} bg-gray-600 hover:bg-gray-700`}>{t('common.reset')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const TimerView = () => {
+    const timers = useStore(timerStore);
+    const [adding, setAdding] = useState(false);
+    const now = useNow(250);
+    const { t } = useTranslation();
+
+    // With a single timer the space bar starts and pauses it; with several it would be ambiguous.
+    useKeyboardShortcuts({ Space: () => toggleTimer(timers[0]) }, timers.length === 1 && !adding);
+
+    return (
+        <Card title={t('timer.title')} icon={<Icon>{ICONS.TIMER}</Icon>}>
+            {timers.length === 0 || adding ? (
+                <NewTimerForm onDone={() => setAdding(false)} onCancel={timers.length > 0 ? () => setAdding(false) : null} />
+            ) : (
+                <div className="space-y-4">
+                    <ul className="max-h-96 overflow-y-auto space-y-2 pe-2">
+                        {timers.map(timer => (
+                            <li key={timer.id}>
+                                <TimerRow timer={timer} now={now} />
+                            </li>
+                        ))}
+                    </ul>
+                    <button onClick={() => setAdding(true)} className="w-full py-2 rounded-xl border border-dashed border-gray-600 text-blue-400 hover:text-blue-300 hover:border-gray-500">
+                        {t('timer.add')}
+                    </button>
+                </div>
+            )}
+        </Card>
+    );
+};
+
+export default TimerView;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { WeatherAlert, WeatherAlertSeverity } from '../types';
+import { WEATHER_ALERT_ICONS } from '../services/weatherAlerts';
+import { settingsStore } from '../services/settingsStore';
+import { formatTimeOfDay } from '../utils/units';
+import { useStore } from '../hooks/useStore';
+import { useTranslation } from '../hooks/useTranslation';
+
+const SEVERITY_STYLES: Record<WeatherAlertSeverity, string> = {
+    advisory: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-100',
+    watch: 'bg-orange-500/15 border-orange-500/40 text-orange-100',
+    warning: 'bg-red-500/15 border-red-500/50 text-red-100',
+};
+
+const WeatherAlertsBanner = ({ alerts }: { alerts: WeatherAlert[] }) => {
+    const { clockFormat } = useStore(settingsStore);
+    const { t } = useTranslation();
+
+    if (alerts.length === 0) return null;
+
+    const formatWhen = ({ startsAt, endsAt }: WeatherAlert) => {
+        const format = (time: string) => formatTimeOfDay(time.slice(11, 16), clockFormat);
+        if (startsAt && endsAt) return `${format(startsAt)} – ${format(endsAt)}`;
+        if (startsAt) return t('weather.alertFrom', { time: format(startsAt) });
+        if (endsAt) return t('weather.alertUntil', { time: format(endsAt) });
+        return null;
+    };
+
+    return (
+        <ul role="alert" className="w-full mb-4 space-y-2 text-start">
+            {alerts.map(alert => (
+                <li key={alert.id} className={`border rounded-lg p-2 text-xs ${SEVERITY_STYLES[alert.severity]}`}>
+                    <p className="font-semibold text-sm">
+                        <span aria-hidden="true">{WEATHER_ALERT_ICONS[alert.kind]} </span>
+                        {alert.title}
+                        {formatWhen(alert) && <span className="font-normal opacity-80"> · {formatWhen(alert)}</span>}
+                    </p>
+                    {alert.description && <p className="mt-0.5 opacity-90">{alert.description}</p>}
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+export default WeatherAlertsBanner;
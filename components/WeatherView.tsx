@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CachedWeather, LocationMatch } from '../types';
+import { ICONS } from '../constants';
+import { MessageKey } from '../locales/en';
+import { getWeatherProvider } from '../services/weatherProviders';
+import { getLatestCachedWeather } from '../services/weatherCache';
+import { collectWeatherAlerts } from '../services/weatherAlerts';
+import { WeatherError } from '../services/errors';
+import { locationStore, saveLocation, removeLocation, setDefaultLocation } from '../services/locationStore';
+import { settingsStore } from '../services/settingsStore';
+import { formatTemperature, formatWindSpeed } from '../utils/units';
+import { useStore } from '../hooks/useStore';
+import { useGeolocation } from '../hooks/useGeolocation';
+import { useWeather } from '../hooks/useWeather';
+import { useNow } from '../hooks/useNow';
+import { useTranslation } from '../hooks/useTranslation';
+import { Icon, Card, Button } from './ui';
+import ForecastSections from './ForecastSections';
+import BriefingPanel from './BriefingPanel';
+import WeatherAlertsBanner from './WeatherAlertsBanner';
+import LocationSearch from './LocationSearch';
+
+const CURRENT_LOCATION = 'current';
+const SWIPE_THRESHOLD_PX = 50;
+
+const weatherErrorMessage = (error: unknown): MessageKey => {
+    if (!(error instanceof WeatherError)) return 'weather.error.unknown';
+    switch (error.kind) {
+        case 'missing-api-key': return 'weather.error.missingApiKey';
+        case 'network': return 'weather.error.network';
+        case 'malformed-response':
+        case 'invalid-data': return 'weather.error.invalidData';
+    }
+};
+
+/** "5 min. ago", "hace 2 h", or null when it is under a minute. */
+const formatAge = (ms: number, locale: string): string | null => {
+    const minutes = Math.floor(ms / 60_000);
+    if (minutes < 1) return null;
+    const format = new Intl.RelativeTimeFormat(locale, { style: 'short' });
+    if (minutes < 60) return format.format(-minutes, 'minute');
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return format.format(-hours, 'hour');
+    return format.format(-Math.floor(hours / 24), 'day');
+};
+
+interface WeatherReadingProps {
+    entry: CachedWeather;
+    providerName: string;
+    notice: string | null;
+    onRetry: (() => void) | null;
+    refreshing: boolean;
+    now: number;
+}
+
+const WeatherReading = ({ entry, providerName, notice, onRetry, refreshing, now }: WeatherReadingProps) => {
+    const { weatherData, forecast, sources } = entry.result;
+    const settings = useStore(settingsStore);
+    const { t, locale } = useTranslation();
+
+    return (
+        <div className="flex flex-col items-center text-center">
+            {notice && (
+                <div role="status" className="w-full mb-4 bg-yellow-500/10 border border-yellow-500/30 text-yellow-200 text-xs rounded-lg p-2 flex items-center justify-between gap-2">
+                    <span className="text-start">{notice} {t('weather.showingLastKnown')}</span>
+                    {onRetry && <button onClick={onRetry} className="underline flex-shrink-0">{t('common.retry')}</button>}
+                </div>
+            )}
+            <WeatherAlertsBanner alerts={collectWeatherAlerts(entry.result, settings)} />
+            <h3 className="text-3xl font-bold">{weatherData.city}</h3>
+            <p className="text-xs text-gray-500" aria-live="polite">
+                {refreshing ? t('weather.updating') : t('weather.lastUpdated', { age: formatAge(now - entry.fetchedAt, locale.tag) ?? t('weather.justNow') })}
+            </p>
+            <div className="text-8xl my-4 flex items-start">
+                <span className="mt-2">{weatherData.icon}</span>
+                <span className="ms-4 font-bold">{formatTemperature(weatherData.temperature, settings.temperatureUnit)}</span>
+            </div>
+            <p className="text-2xl text-gray-300 capitalize">{weatherData.condition}</p>
+            <div className="mt-6 w-full text-start grid grid-cols-2 gap-4 text-sm">
+                <p><span className="font-semibold text-gray-400">{t('weather.humidity')}</span> {weatherData.humidity}%</p>
+                <p><span className="font-semibold text-gray-400">{t('weather.wind')}</span> {formatWindSpeed(weatherData.windSpeed, settings.windSpeedUnit)}</p>
+            </div>
+            <BriefingPanel entry={entry} />
+            <ForecastSections forecast={forecast} />
+            {sources.length > 0 && (
+                <div className="mt-4 w-full text-start text-xs text-gray-500">
+                     <p className="font-semibold mb-1">{t('weather.sources')}</p>
+                    {sources.map((source, i) => (
+                        <a key={i} href={source.web.uri} target="_blank" rel="noopener noreferrer" className="block truncate hover:underline text-blue-400">
+                            {source.web.title || source.web.uri}
+                        </a>
+                    ))}
+                </div>
+            )}
+            <p className="mt-4 w-full text-start text-xs text-gray-500">{t('weather.dataFrom', { provider: providerName })}</p>
+        </div>
+    );
+};
+
+const WeatherView = () => {
+    const provider = useMemo(getWeatherProvider, []);
+    const location = useGeolocation();
+    const { locations, defaultId } = useStore(locationStore);
+    const [selectedId, setSelectedId] = useState(CURRENT_LOCATION);
+    const [searching, setSearching] = useState(false);
+    const touchStartXRef = useRef<number | null>(null);
+    const fellBackRef = useRef(false);
+    const { t, locale } = useTranslation();
+
+    const pageIds = [CURRENT_LOCATION, ...locations.map(saved => saved.id)];
+    const pageIndex = Math.max(pageIds.indexOf(selectedId), 0);
+    const selected = locations.find(saved => saved.id === selectedId) ?? null;
+    const onCurrentLocation = selected === null;
+
+    // When the device location is unavailable, switch once to the saved default.
+    useEffect(() => {
+        if (location.error && defaultId && !fellBackRef.current) {
+            fellBackRef.current = true;
+            setSelectedId(defaultId);
+        }
+    }, [location.error, defaultId]);
+
+    const coords = selected ? selected.coords : location.coords;
+    const { entry, error, refreshing, online, refresh } = useWeather(provider, coords, locale.id);
+    const now = useNow(30_000);
+
+    // Without a position fix or any saved place, fall back to the last reading we have for anywhere.
+    const fallback = useMemo(
+        () => (onCurrentLocation && location.error && !defaultId ? getLatestCachedWeather(provider.id) : null),
+        [onCurrentLocation, location.error, defaultId, provider]
+    );
+    const shown = entry ?? fallback;
+
+    const goToPage = (index: number) => {
+        const clamped = Math.min(Math.max(index, 0), pageIds.length - 1);
+        setSelectedId(pageIds[clamped]);
+    };
+
+    const handleTouchEnd = (clientX: number) => {
+        if (touchStartXRef.current === null) return;
+        const deltaX = clientX - touchStartXRef.current;
+        touchStartXRef.current = null;
+        if (Math.abs(deltaX) < SWIPE_THRESHOLD_PX) return;
+        // Swiping towards the start of the line moves to the next page; in RTL languages that is to the right.
+        const forward = locale.dir === 'rtl' ? deltaX > 0 : deltaX < 0;
+        goToPage(pageIndex + (forward ? 1 : -1));
+    };
+
+    const handleSelectMatch = (match: LocationMatch) => {
+        setSelectedId(saveLocation(match).id);
+        setSearching(false);
+    };
+
+    const handleRemove = (id: string) => {
+        removeLocation(id);
+        setSelectedId(CURRENT_LOCATION);
+    };
+
+    const retry = () => {
+        if (coords) {
+            refresh(coords);
+        } else {
+            location.locate();
+        }
+    };
+
+    const locationProblem = onCurrentLocation ? location.error : null;
+    const problem = locationProblem ?? (error ? t(weatherErrorMessage(error)) : null);
+    const loading = !shown && !problem && ((onCurrentLocation && location.loading) || refreshing);
+
+    const locationBar = (
+        <div className="mb-4 flex items-center justify-between text-sm">
+            <button onClick={() => goToPage(pageIndex - 1)} disabled={pageIndex === 0} aria-label={t('weather.previousLocation')} className="px-2 text-gray-400 hover:text-white disabled:opacity-30">‹</button>
+            <div className="flex-1 min-w-0 text-center">
+                <p className="truncate font-medium text-gray-200">{selected ? selected.name : t('weather.currentLocation')}</p>
+                <div className="flex justify-center gap-1 mt-1" aria-hidden="true">
+                    {pageIds.map((id, index) => (
+                        <span key={id} className={`w-1.5 h-1.5 rounded-full ${index === pageIndex ? 'bg-blue-400' : 'bg-gray-600'}`} />
+                    ))}
+                </div>
+            </div>
+            <button onClick={() => goToPage(pageIndex + 1)} disabled={pageIndex === pageIds.length - 1} aria-label={t('weather.nextLocation')} className="px-2 text-gray-400 hover:text-white disabled:opacity-30">›</button>
+            <div className="flex items-center gap-2 ms-2">
+                {selected && (
+                    <>
+                        <button
+                            onClick={() => setDefaultLocation(selected.id)}
+                            aria-pressed={defaultId === selected.id}
+                            aria-label={t('weather.useAsDefault')}
+                            title={t('weather.defaultLocation')}
+                            className={defaultId === selected.id ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-300'}
+                        >
+                            ★
+                        </button>
+                        <button onClick={() => handleRemove(selected.id)} aria-label={t('weather.removeLocation', { name: selected.name })} className="text-gray-500 hover:text-red-400">✕</button>
+                    </>
+                )}
+                <button onClick={() => setSearching(true)} aria-label={t('weather.addLocation')} className="text-blue-400 hover:text-blue-300 text-lg leading-none">+</button>
+            </div>
+        </div>
+    );
+
+    return (
+        <Card title={t('weather.title')} icon={<Icon>{ICONS.SUN}</Icon>}>
+            {searching ? (
+                <LocationSearch provider={provider} onSelect={handleSelectMatch} onCancel={() => setSearching(false)} />
+            ) : (
+                <div
+                    onTouchStart={(e) => { touchStartXRef.current = e.touches[0].clientX; }}
+                    onTouchEnd={(e) => handleTouchEnd(e.changedTouches[0].clientX)}
+                >
+                    {locationBar}
+                    {loading && <p role="status" className="text-center text-gray-400 motion-safe:animate-pulse">{t('weather.loading')}</p>}
+                    {problem && !shown && <div className="text-center space-y-4">
+                        <p className="text-red-400">{problem}</p>
+                        <Button onClick={retry} className="bg-blue-500 hover:bg-blue-600 mx-auto">
+                            {t('common.tryAgain')}
+                        </Button>
+                    </div>}
+                    {shown && (
+                        <WeatherReading
+                            entry={shown}
+                            providerName={provider.name}
+                            notice={problem ?? (online ? null : t('weather.offline'))}
+                            onRetry={online ? retry : null}
+                            refreshing={refreshing}
+                            now={now}
+                        />
+                    )}
+                </div>
+            )}
+        </Card>
+    );
+};
+
+export default WeatherView;
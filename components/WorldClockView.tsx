@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { ICONS } from '../constants';
+import { settingsStore } from '../services/settingsStore';
+import { worldClockStore, addWorldClock, removeWorldClock } from '../services/worldClockStore';
+import {
+    describeTimeZoneDay, describeTimeZoneDifference, formatTimeInZone, getLocalTimeZone, listTimeZones, timeZoneCity,
+} from '../utils/timeZones';
+import { useStore } from '../hooks/useStore';
+import { useNow } from '../hooks/useNow';
+import { useTranslation } from '../hooks/useTranslation';
+import { Icon, Card } from './ui';
+
+const WorldClockView = () => {
+    const zones = useStore(worldClockStore);
+    const { clockFormat } = useStore(settingsStore);
+    const { t } = useTranslation();
+    const [adding, setAdding] = useState('');
+    const date = new Date(useNow(1000));
+    const available = listTimeZones().filter(zone => !zones.includes(zone));
+
+    const add = () => {
+        if (!adding) return;
+        addWorldClock(adding);
+        setAdding('');
+    };
+
+    return (
+        <Card title={t('worldClock.title')} icon={<Icon>{ICONS.WORLD_CLOCK}</Icon>}>
+            <div className="text-center mb-4">
+                <p className="text-5xl font-mono font-bold tracking-tighter">{formatTimeInZone(date, getLocalTimeZone(), clockFormat)}</p>
+                <p className="text-sm text-gray-400">{t('worldClock.localTime', { city: timeZoneCity(getLocalTimeZone()) })}</p>
+            </div>
+            {zones.length === 0 ? (
+                <p className="text-center text-sm text-gray-400 mb-4">{t('worldClock.empty')}</p>
+            ) : (
+                <ul className="max-h-64 overflow-y-auto space-y-2 pe-2 mb-4">
+                    {zones.map(zone => (
+                        <li key={zone} className="flex items-center justify-between bg-gray-800/50 p-3 rounded-lg">
+                            <div>
+                                <p className="font-semibold">{timeZoneCity(zone)}</p>
+                                <p className="text-xs text-gray-400">{t('worldClock.dayAndDifference', { day: describeTimeZoneDay(date, zone), difference: describeTimeZoneDifference(date, zone) })}</p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <span className="text-2xl font-mono">{formatTimeInZone(date, zone, clockFormat)}</span>
+                                <button onClick={() => removeWorldClock(zone)} aria-label={t('worldClock.remove', { city: timeZoneCity(zone) })} className="text-gray-500 hover:text-red-400">✕</button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="flex gap-2">
+                <select
+                    value={adding}
+                    onChange={(e) => setAdding(e.target.value)}
+                    aria-label={t('worldClock.zoneField')}
+                    className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm"
+                >
+                    <option value="">{t('worldClock.chooseCity')}</option>
+                    {available.map(zone => (
+                        <option key={zone} value={zone}>{timeZoneCity(zone)} ({zone.split('/')[0]})</option>
+                    ))}
+                </select>
+                <button onClick={add} disabled={!adding} className="px-4 rounded-lg bg-blue-500 hover:bg-blue-600 text-sm font-semibold text-white disabled:opacity-40">
+                    {t('worldClock.add')}
+                </button>
+            </div>
+        </Card>
+    );
+};
+
+export default WorldClockView;
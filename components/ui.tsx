@@ -0,0 +1,36 @@
+import React, { ReactNode } from 'react';
+
+export const Icon = ({ children, className = '' }: { children: ReactNode; className?: string }) => (
+  <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={`w-8 h-8 ${className}`}>
+    {children}
+  </svg>
+);
+
+export const Card = ({ title, icon, children }: { title: string; icon: ReactNode; children: ReactNode }) => (
+  <div className="w-full max-w-sm mx-auto bg-black/40 backdrop-blur-2xl rounded-3xl shadow-2xl overflow-hidden border border-white/10">
+    <div className="p-5 border-b border-white/10 flex items-center gap-4">
+      <div className="text-blue-400">{icon}</div>
+      <h2 className="text-xl font-bold tracking-tight text-white">{title}</h2>
+    </div>
+    <div className="p-6">{children}</div>
+  </div>
+);
+
+interface ButtonProps {
+    onClick: () => void;
+    children: ReactNode;
+    className?: string;
+    disabled?: boolean;
+    keyShortcut?: string;
+}
+
+export const Button = ({ onClick, children, className = '', disabled = false, keyShortcut }: ButtonProps) => (
+    <button
+        onClick={onClick}
+        disabled={disabled}
+        aria-keyshortcuts={keyShortcut}
+        className={`px-6 py-3 rounded-xl font-semibold text-white transition-all duration-150 transform motion-safe:active:scale-95 disabled:bg-gray-600 disabled:opacity-70 disabled:cursor-not-allowed ${className}`}
+    >
+        {children}
+    </button>
+);
@@ -1,4 +1,6 @@
 import React from 'react';
+import { DeviceOrientation } from './types';
+import { MessageKey } from './locales/en';
 
 export const ICONS = {
   ALARM: <path strokeLinecap="round" strokeLinejoin="round" d="M10.34 1.87a.75.75 0 0 1 .82 0l4.5 2.25a.75.75 0 0 1 0 1.36l-4.5 2.25a.75.75 0 0 1-.82 0l-4.5-2.25a.75.75 0 0 1 0-1.36l4.5-2.25ZM12 12.75a4.5 4.5 0 1 0 0-9 4.5 4.5 0 0 0 0 9Z" />,
@@ -6,5 +8,26 @@ export const ICONS = {
   TIMER: <path strokeLinecap="round" strokeLinejoin="round" d="M3.75 6.75h16.5M3.75 12h16.5m-16.5 5.25H12" />,
   SUN: <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v2.25m6.364.386-1.591 1.591M21 12h-2.25m-.386 6.364-1.591-1.591M12 18.75V21m-4.773-4.227-1.591 1.591M5.25 12H3m4.227-4.773L5.636 5.636M15.75 12a3.75 3.75 0 1 1-7.5 0 3.75 3.75 0 0 1 7.5 0Z" />,
   ROTATE: <path strokeLinecap="round" strokeLinejoin="round" d="M15.59 14.37a6 6 0 0 1-5.84 7.38v-4.82m5.84-2.56a12.022 12.022 0 0 0-5.84-2.56v4.82m0 0a6 6 0 0 1 6.12-6.12m-6.12 6.12a6 6 0 0 1-6.12-6.12m6.12 6.12v-4.82" />,
+  SETTINGS: <><path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.325.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 0 1 1.37.49l1.296 2.247a1.125 1.125 0 0 1-.26 1.431l-1.003.827c-.293.241-.438.613-.43.992a7.723 7.723 0 0 1 0 .255c-.008.378.137.75.43.991l1.004.827c.424.35.534.955.26 1.43l-1.298 2.247a1.125 1.125 0 0 1-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.47 6.47 0 0 1-.22.128c-.331.183-.581.495-.644.869l-.213 1.281c-.09.543-.56.94-1.11.94h-2.594c-.55 0-1.019-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 0 1-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 0 1-1.369-.49l-1.297-2.247a1.125 1.125 0 0 1 .26-1.431l1.004-.827c.292-.24.437-.613.43-.991a6.932 6.932 0 0 1 0-.255c.007-.38-.138-.751-.43-.992l-1.004-.827a1.125 1.125 0 0 1-.26-1.43l1.297-2.247a1.125 1.125 0 0 1 1.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.086.22-.128.332-.183.582-.495.644-.869l.214-1.28Z" /><path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z" /></>,
+  WORLD_CLOCK: <path strokeLinecap="round" strokeLinejoin="round" d="M12 21a9.004 9.004 0 0 0 8.716-6.747M12 21a9.004 9.004 0 0 1-8.716-6.747M12 21c2.485 0 4.5-4.03 4.5-9S14.485 3 12 3m0 18c-2.485 0-4.5-4.03-4.5-9S9.515 3 12 3m0 0a8.997 8.997 0 0 1 7.843 4.582M12 3a8.997 8.997 0 0 0-7.843 4.582m15.686 0A11.953 11.953 0 0 1 12 10.5c-2.998 0-5.74-1.1-7.843-2.918m15.686 0A8.959 8.959 0 0 1 21 12c0 .778-.099 1.533-.284 2.253m0 0A17.919 17.919 0 0 1 12 16.5c-3.162 0-6.133-.815-8.716-2.247m0 0A9.015 9.015 0 0 1 3 12c0-1.605.42-3.113 1.157-4.418" />,
+  COMPASS: <><circle cx="12" cy="12" r="9" /><path strokeLinecap="round" strokeLinejoin="round" d="m15.5 8.5-2 5-5 2 2-5 5-2Z" /></>,
+  LEVEL: <><rect x="2.25" y="8.25" width="19.5" height="7.5" rx="3.75" /><circle cx="12" cy="12" r="1.75" /><path strokeLinecap="round" d="M9 8.25v7.5M15 8.25v7.5" /></>,
   INFO: <path strokeLinecap="round" strokeLinejoin="round" d="m11.25 11.25.041-.02a.75.75 0 0 1 1.063.852l-.708 2.836a.75.75 0 0 0 1.063.853l.041-.021M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9-3.75h.008v.008H12V8.25Z" />,
 };
+
+export const SNOOZE_MINUTES = 9;
+
+// Bundled with the app (see public/sounds) so they are cached for offline use.
+export const SOUNDS = {
+  ALARM: '/sounds/alarm.wav',
+  TIMER: '/sounds/timer.wav',
+  STAGE_WORK: '/sounds/stage-work.wav',
+  STAGE_REST: '/sounds/stage-rest.wav',
+};
+
+export const ORIENTATION_LABEL_KEYS: Record<DeviceOrientation, MessageKey> = {
+  'portrait-primary': 'orientation.portraitPrimary',
+  'landscape-primary': 'orientation.landscapePrimary',
+  'portrait-secondary': 'orientation.portraitSecondary',
+  'landscape-secondary': 'orientation.landscapeSecondary',
+};
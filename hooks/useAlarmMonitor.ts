@@ -0,0 +1,122 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { Alarm } from '../types';
+import { alarmStore, ringingAlarmStore, markAlarmFired, snoozeAlarm, dismissAlarm } from '../services/alarmStore';
+import { createAlarmScheduler } from '../services/alarmScheduler';
+import { Clock, systemClock } from '../services/clock';
+import { showNotification, closeNotification, onNotificationAction } from '../services/notificationService';
+import { settingsStore } from '../services/settingsStore';
+import { formatClockTime } from '../utils/units';
+import { startRinger, DEFAULT_ALARM_SOUND_ID } from '../services/soundLibrary';
+import { VIBRATION_PATTERNS } from '../services/soundEngine';
+import { announce } from '../services/announcer';
+import { t } from '../services/i18n';
+import { useStore } from './useStore';
+
+const notificationTag = (id: string) => `alarm:${id}`;
+
+const notifyAlarm = (alarm: Alarm, dueAt: number, missed: boolean) => {
+  const dueTime = formatClockTime(new Date(dueAt), settingsStore.get().clockFormat);
+  showNotification({
+    title: alarm.label,
+    body: t(missed ? 'alarm.missedDueAt' : 'alarm.dueAt', { time: dueTime }),
+    tag: notificationTag(alarm.id),
+    requireInteraction: true,
+    actions: [
+      { action: 'snooze', title: t('alarm.snooze') },
+      { action: 'stop', title: t('common.stop') },
+    ],
+  });
+};
+
+export interface RingingAlarm {
+  alarm: Alarm;
+  dueAt: number;
+  missed: boolean;
+}
+
+/**
+ * Runs the alarm scheduler for as long as the app is mounted, independent of
+ * which view is currently showing, and tracks which alarms are ringing. Each
+ * open tab rings, and snoozing or stopping an alarm in any tab stops them all.
+ */
+export const useAlarmMonitor = (clock: Clock = systemClock) => {
+  const alarms = useStore(alarmStore);
+  const ringingEntries = useStore(ringingAlarmStore);
+  const schedulerRef = useRef<ReturnType<typeof createAlarmScheduler> | null>(null);
+
+  useEffect(() => {
+    const scheduler = createAlarmScheduler({
+      getAlarms: alarmStore.get,
+      clock,
+      onDue: (due, now) => {
+        due.forEach(({ alarm, dueAt, missed }) => {
+          markAlarmFired(alarm.id, now);
+          notifyAlarm(alarm, dueAt, missed);
+          announce(t(missed ? 'alarm.announceMissed' : 'alarm.announceRinging', { label: alarm.label }), 'assertive');
+        });
+        ringingAlarmStore.set(prev => [
+          ...prev,
+          ...due
+            .filter(({ alarm }) => !prev.some(entry => entry.id === alarm.id))
+            .map(({ alarm, dueAt, missed }) => ({ id: alarm.id, dueAt, missed })),
+        ]);
+      },
+    });
+    schedulerRef.current = scheduler;
+    scheduler.start();
+    return () => scheduler.stop();
+  }, [clock]);
+
+  // Adding, editing or snoozing an alarm can move the next due time earlier.
+  useEffect(() => {
+    schedulerRef.current?.reschedule();
+  }, [alarms]);
+
+  // Rings with the first ringing alarm's sound, looping and getting louder until every alarm is dealt
+  // with. Alarms that start ringing meanwhile do not restart the sound.
+  const firstRingingId = ringingEntries[0]?.id ?? null;
+  const isRinging = firstRingingId !== null;
+  useEffect(() => {
+    if (!isRinging) return;
+    const { sounds } = settingsStore.get();
+    const alarm = alarmStore.get().find(candidate => candidate.id === firstRingingId);
+    const ringer = startRinger({
+      soundId: alarm?.soundId ?? sounds.alarmSoundId,
+      fallbackId: DEFAULT_ALARM_SOUND_ID,
+      volume: sounds.volume,
+      loop: true,
+      rampSeconds: sounds.rampSeconds,
+      vibration: sounds.vibrate ? VIBRATION_PATTERNS.ALARM : null,
+    });
+    return () => ringer.stop();
+  }, [isRinging]);
+
+  const stopRinging = (id: string) => {
+    ringingAlarmStore.set(prev => prev.filter(entry => entry.id !== id));
+    closeNotification(notificationTag(id));
+  };
+
+  const snooze = useCallback((id: string) => {
+    snoozeAlarm(id, clock.now());
+    stopRinging(id);
+  }, [clock]);
+
+  const dismiss = useCallback((id: string) => {
+    dismissAlarm(id);
+    stopRinging(id);
+  }, []);
+
+  useEffect(() => onNotificationAction(({ action, tag }) => {
+    const id = tag.startsWith('alarm:') ? tag.slice('alarm:'.length) : null;
+    if (id === null) return;
+    if (action === 'snooze') snooze(id);
+    if (action === 'stop') dismiss(id);
+  }), [snooze, dismiss]);
+
+  const ringing = ringingEntries.flatMap<RingingAlarm>(({ id, dueAt, missed }) => {
+    const alarm = alarms.find(candidate => candidate.id === id);
+    return alarm ? [{ alarm, dueAt, missed }] : [];
+  });
+
+  return { ringing, snooze, dismiss };
+};
@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Coordinates } from '../types';
+import { t } from '../services/i18n';
+
+// Accept a position fix up to ten minutes old instead of waking the GPS on every visit.
+const POSITION_OPTIONS: PositionOptions = { maximumAge: 10 * 60_000, timeout: 15_000 };
+
+const describePositionError = (err: GeolocationPositionError): string => {
+  switch (err.code) {
+    case err.PERMISSION_DENIED:
+      return t('location.error.denied');
+    case err.POSITION_UNAVAILABLE:
+      return t('location.error.unavailable');
+    case err.TIMEOUT:
+      return t('location.error.timeout');
+    default:
+      return t('location.error.unknown');
+  }
+};
+
+export const useGeolocation = () => {
+  const [coords, setCoords] = useState<Coordinates | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const locate = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    if (!('geolocation' in navigator)) {
+      setError(t('location.error.unsupported'));
+      setLoading(false);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCoords({ lat: position.coords.latitude, lon: position.coords.longitude });
+        setLoading(false);
+      },
+      (err: GeolocationPositionError) => {
+        setError(describePositionError(err));
+        setLoading(false);
+      },
+      POSITION_OPTIONS
+    );
+  }, []);
+
+  useEffect(() => {
+    locate();
+  }, [locate]);
+
+  return { coords, error, loading, locate };
+};
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+
+/** Actions keyed by `KeyboardEvent.key`, lower-cased for letters, with "Space" for the space bar. */
+export type ShortcutMap = Record<string, () => void>;
+
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const isPressable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && target.closest('button, a, [role="button"], [role="switch"], [role="tab"]') !== null;
+
+const shortcutKey = (event: KeyboardEvent) =>
+  event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+/**
+ * Binds single-key shortcuts on the whole page while the calling component is
+ * mounted. Keys typed into form fields, presses with modifier keys and anything
+ * behind a modal dialog are left alone, and the space bar still presses a
+ * focused button rather than triggering a shortcut.
+ */
+export const useKeyboardShortcuts = (shortcuts: ShortcutMap, enabled = true) => {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTextEntry(event.target) || document.querySelector('[aria-modal="true"]')) return;
+      const key = shortcutKey(event);
+      if (key === 'Space' && isPressable(event.target)) return;
+      const action = shortcutsRef.current[key];
+      if (!action) return;
+      event.preventDefault();
+      action();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+};
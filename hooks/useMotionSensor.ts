@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MotionPermission } from '../types';
+import {
+  absoluteOrientationEventName,
+  hasDeviceOrientationEvents,
+  hasScreenOrientation,
+  motionPermissionRequired,
+  readCompassHeading,
+  requestMotionPermission,
+} from '../services/orientationDetection';
+
+export interface MotionReading {
+  /** Front-to-back tilt in degrees, 0 when lying flat. */
+  beta: number;
+  /** Left-to-right tilt in degrees, 0 when lying flat. */
+  gamma: number;
+  /** Degrees clockwise from magnetic north, or null without a compass. */
+  heading: number | null;
+}
+
+const readScreenAngle = () => hasScreenOrientation() ? window.screen.orientation.angle : 0;
+
+/**
+ * Live motion-sensor readings for the compass and level tools, updated at
+ * most once per frame. `reading` stays null until the sensors report, which
+ * on desktop browsers is never.
+ */
+export const useMotionSensor = () => {
+  const supported = hasDeviceOrientationEvents();
+  const [reading, setReading] = useState<MotionReading | null>(null);
+  const [permission, setPermission] = useState<MotionPermission>(() =>
+    motionPermissionRequired() ? 'prompt' : 'not-required'
+  );
+
+  useEffect(() => {
+    if (!supported || permission === 'prompt' || permission === 'denied') return;
+
+    let latest: MotionReading | null = null;
+    let frame: number | null = null;
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      if (event.beta === null || event.gamma === null) return;
+      latest = { beta: event.beta, gamma: event.gamma, heading: readCompassHeading(event, readScreenAngle()) };
+      frame ??= requestAnimationFrame(() => {
+        frame = null;
+        setReading(latest);
+      });
+    };
+
+    const eventName = absoluteOrientationEventName();
+    window.addEventListener(eventName, handleOrientation);
+    return () => {
+      window.removeEventListener(eventName, handleOrientation);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [supported, permission]);
+
+  /** Must be called from a user gesture (e.g. a button click) for iOS to show the prompt. */
+  const requestPermission = useCallback(async () => {
+    setPermission((await requestMotionPermission()) ? 'granted' : 'denied');
+  }, []);
+
+  return { supported, reading, permission, requestPermission };
+};
@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { Clock, systemClock, createTicker } from '../services/clock';
+
+interface UseNowOptions {
+  enabled?: boolean;
+  clock?: Clock;
+}
+
+/** Re-renders the caller every `intervalMs` with the current timestamp, for as long as `enabled` is set. */
+export const useNow = (intervalMs: number, { enabled = true, clock = systemClock }: UseNowOptions = {}): number => {
+  const [now, setNow] = useState(() => clock.now());
+
+  useEffect(() => {
+    if (!enabled) return;
+    const ticker = createTicker({ intervalMs, clock, onTick: setNow });
+    ticker.start();
+    return () => ticker.stop();
+  }, [intervalMs, enabled, clock]);
+
+  return now;
+};
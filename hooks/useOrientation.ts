@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MotionPermission, Orientation, OrientationSource } from '../types';
+import {
+  angleFromTilt,
+  resolveTiltOrientation,
+  readScreenOrientation,
+  readWindowOrientation,
+  readMediaQueryOrientation,
+  hasScreenOrientation,
+  hasWindowOrientation,
+  hasDeviceOrientationEvents,
+  motionPermissionRequired,
+  requestMotionPermission,
+} from '../services/orientationDetection';
+
+/** A tilt reading must hold this long before the orientation changes. */
+const TILT_SETTLE_MS = 300;
+
+const getPassiveSource = (): OrientationSource => {
+  if (typeof window === 'undefined') return 'none';
+  if (hasScreenOrientation()) return 'screen-orientation';
+  if (hasWindowOrientation()) return 'window-orientation';
+  if (typeof window.matchMedia === 'function') return 'media-query';
+  return 'none';
+};
+
+const readPassiveOrientation = (source: OrientationSource): Orientation => {
+  switch (source) {
+    case 'screen-orientation': return readScreenOrientation();
+    case 'window-orientation': return readWindowOrientation();
+    case 'media-query': return readMediaQueryOrientation();
+    default: return 'unknown';
+  }
+};
+
+/**
+ * Detects the device orientation from the best available source: the Screen
+ * Orientation API, then motion-sensor tilt (which also works with iOS
+ * Portrait Orientation Lock on), then legacy `window.orientation`, then the
+ * window's aspect ratio. Reports which source is active so the UI can explain
+ * itself, and exposes the iOS motion permission flow.
+ */
+export const useOrientation = () => {
+  const passiveSource = getPassiveSource();
+  const [orientation, setOrientation] = useState<Orientation>(() => readPassiveOrientation(passiveSource));
+  const [tiltActive, setTiltActive] = useState(false);
+  const [permission, setPermission] = useState<MotionPermission>(() =>
+    motionPermissionRequired() ? 'prompt' : 'not-required'
+  );
+  const orientationRef = useRef(orientation);
+  orientationRef.current = orientation;
+
+  const tiltAvailable = passiveSource !== 'screen-orientation' && hasDeviceOrientationEvents();
+  const source: OrientationSource = tiltActive ? 'device-orientation' : passiveSource;
+
+  // Passive sources, used until (or instead of) tilt readings arrive.
+  useEffect(() => {
+    if (tiltActive) return;
+    const update = () => setOrientation(readPassiveOrientation(passiveSource));
+
+    switch (passiveSource) {
+      case 'screen-orientation':
+        window.screen.orientation.addEventListener('change', update);
+        return () => window.screen.orientation.removeEventListener('change', update);
+      case 'window-orientation':
+        window.addEventListener('orientationchange', update);
+        return () => window.removeEventListener('orientationchange', update);
+      case 'media-query': {
+        const query = window.matchMedia('(orientation: portrait)');
+        query.addEventListener('change', update);
+        return () => query.removeEventListener('change', update);
+      }
+      default:
+        return () => {};
+    }
+  }, [passiveSource, tiltActive]);
+
+  // Motion-sensor tilt, debounced and with hysteresis around the 45° diagonals.
+  useEffect(() => {
+    if (!tiltAvailable || permission === 'prompt' || permission === 'denied') return;
+
+    let pending: Orientation | null = null;
+    let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleTilt = (event: DeviceOrientationEvent) => {
+      // Desktop browsers expose the event type but report null readings.
+      if (event.beta === null || event.gamma === null) return;
+      setTiltActive(true);
+
+      const angle = angleFromTilt(event.beta, event.gamma);
+      if (angle === null) return;
+      const next = resolveTiltOrientation(angle, orientationRef.current);
+
+      if (next === orientationRef.current) {
+        pending = null;
+        if (settleTimer) clearTimeout(settleTimer);
+        return;
+      }
+      if (next !== pending) {
+        pending = next;
+        if (settleTimer) clearTimeout(settleTimer);
+        settleTimer = setTimeout(() => setOrientation(next), TILT_SETTLE_MS);
+      }
+    };
+
+    window.addEventListener('deviceorientation', handleTilt);
+    return () => {
+      window.removeEventListener('deviceorientation', handleTilt);
+      if (settleTimer) clearTimeout(settleTimer);
+    };
+  }, [tiltAvailable, permission]);
+
+  /** Must be called from a user gesture (e.g. a button click) for iOS to show the prompt. */
+  const requestPermission = useCallback(async () => {
+    setPermission((await requestMotionPermission()) ? 'granted' : 'denied');
+  }, []);
+
+  return { orientation, source, permission: tiltAvailable ? permission : 'not-required', requestPermission };
+};
@@ -0,0 +1,68 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { MessageKey } from '../locales/en';
+import { getLocale } from '../services/i18n';
+
+// The Web Speech API is not in the DOM typings and is still prefixed in Chromium and Safari.
+interface SpeechRecognitionResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | null => {
+  const candidates = window as unknown as Record<string, SpeechRecognitionConstructor | undefined>;
+  return candidates.SpeechRecognition ?? candidates.webkitSpeechRecognition ?? null;
+};
+
+/**
+ * One-shot dictation in the app's language: `listen` records a single phrase
+ * and passes its transcript to `onResult`. `error` is a message key.
+ */
+export const useSpeechRecognition = (onResult: (transcript: string) => void) => {
+  const [listening, setListening] = useState(false);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const supported = getRecognitionConstructor() !== null;
+
+  const listen = useCallback(() => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition || recognitionRef.current) return;
+    const recognition = new Recognition();
+    recognition.lang = getLocale().tag;
+    recognition.interimResults = false;
+    recognition.onresult = (event) => {
+      const transcript = event.results[0]?.[0]?.transcript ?? '';
+      if (transcript) onResultRef.current(transcript);
+    };
+    recognition.onerror = (event) => {
+      setError(event.error === 'not-allowed' ? 'command.speechDenied' : 'command.speechNotUnderstood');
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setListening(false);
+    };
+    recognitionRef.current = recognition;
+    setError(null);
+    setListening(true);
+    recognition.start();
+  }, []);
+
+  const stop = useCallback(() => recognitionRef.current?.stop(), []);
+
+  useEffect(() => () => recognitionRef.current?.stop(), []);
+
+  return { supported, listening, error, listen, stop };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { PersistentStore } from '../services/persistentStore';
+
+export const useStore = <T>(store: PersistentStore<T>): T =>
+  useSyncExternalStore(store.subscribe, store.get);
@@ -0,0 +1,136 @@
+import { useEffect, useCallback, useRef } from 'react';
+import { Timer } from '../types';
+import { timerStore, ringingTimerStore, advanceTimers, restartTimer } from '../services/timerStore';
+import { getRemainingMs, getSteps, isCountdownRunning } from '../services/timerEngine';
+import { announce } from '../services/announcer';
+import { t } from '../services/i18n';
+import { showNotification, closeNotification, onNotificationAction } from '../services/notificationService';
+import { settingsStore } from '../services/settingsStore';
+import { startRinger, playSound, DEFAULT_TIMER_SOUND_ID } from '../services/soundLibrary';
+import { VIBRATION_PATTERNS } from '../services/soundEngine';
+import { Clock, systemClock, createTicker } from '../services/clock';
+import { useStore } from './useStore';
+
+const TICK_MS = 250;
+const FINAL_MINUTE_MS = 60_000;
+
+const STAGE_SOUND_IDS = { work: 'bundled:stage-work', rest: 'bundled:stage-rest' };
+
+const notificationTag = (id: string) => `timer:${id}`;
+
+const notifyComplete = (timer: Timer) => {
+  showNotification({
+    title: t('timer.notificationTitle'),
+    body: t('timer.notificationBody', { label: timer.label }),
+    tag: notificationTag(timer.id),
+    requireInteraction: true,
+    actions: [
+      { action: 'restart', title: t('common.restart') },
+      { action: 'stop', title: t('common.stop') },
+    ],
+  });
+};
+
+/** Announces once per run when the last step of a long enough timer reaches its final minute. */
+const announceFinalMinutes = (announced: Set<string>, now: number) => {
+  timerStore.get().forEach(({ id, label, run }) => {
+    const steps = getSteps(run.program);
+    const lastStep = run.stepIndex === steps.length - 1;
+    const remaining = getRemainingMs(run.countdown, now);
+    if (!lastStep || remaining > FINAL_MINUTE_MS) {
+      announced.delete(id);
+    } else if (isCountdownRunning(run.countdown) && steps[run.stepIndex].durationSeconds * 1000 > FINAL_MINUTE_MS && !announced.has(id)) {
+      announced.add(id);
+      announce(t('timer.announceFinalMinute', { label }));
+    }
+  });
+};
+
+/**
+ * Advances running timers for as long as the app is mounted, independent of
+ * which view is showing. Stage changes play a short cue; finished timers ring
+ * until they are stopped or restarted.
+ */
+export const useTimerMonitor = (clock: Clock = systemClock) => {
+  const timers = useStore(timerStore);
+  const ringingIds = useStore(ringingTimerStore);
+  const anyRunning = timers.some(timer => isCountdownRunning(timer.run.countdown));
+  const finalMinuteAnnouncedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!anyRunning) return;
+    const ticker = createTicker({
+      intervalMs: TICK_MS,
+      clock,
+      onTick: now => {
+        const finished: string[] = [];
+        advanceTimers(now).forEach(({ timer, transition }) => {
+          if (transition.type === 'complete') {
+            finished.push(timer.id);
+            notifyComplete(timer);
+            announce(t('timer.announceFinished', { label: timer.label }), 'assertive');
+            return;
+          }
+          playSound(STAGE_SOUND_IDS[transition.step.kind], settingsStore.get().sounds.volume);
+          const progress = { round: transition.step.round, rounds: timer.run.program.rounds };
+          announce(t('timer.announceStage', { label: timer.label, stage: transition.step.label, ...progress }));
+          if (document.hidden) {
+            showNotification({
+              title: `${timer.label}: ${transition.step.label}`,
+              body: t('timer.roundOf', progress),
+              tag: notificationTag(timer.id),
+            });
+          }
+        });
+        announceFinalMinutes(finalMinuteAnnouncedRef.current, now);
+        if (finished.length > 0) {
+          ringingTimerStore.set(prev => [...prev, ...finished.filter(id => !prev.includes(id))]);
+        }
+      },
+    });
+    ticker.start();
+    return () => ticker.stop();
+  }, [anyRunning, clock]);
+
+  const isRinging = ringingIds.length > 0;
+  useEffect(() => {
+    if (!isRinging) return;
+    const { sounds } = settingsStore.get();
+    const ringer = startRinger({
+      soundId: sounds.timerSoundId,
+      fallbackId: DEFAULT_TIMER_SOUND_ID,
+      volume: sounds.volume,
+      loop: true,
+      rampSeconds: sounds.rampSeconds,
+      vibration: sounds.vibrate ? VIBRATION_PATTERNS.TIMER : null,
+    });
+    return () => ringer.stop();
+  }, [isRinging]);
+
+  const dismiss = useCallback((id: string) => {
+    ringingTimerStore.set(prev => prev.filter(ringingId => ringingId !== id));
+    closeNotification(notificationTag(id));
+  }, []);
+
+  const restart = useCallback((id: string) => {
+    restartTimer(id);
+    dismiss(id);
+  }, [dismiss]);
+
+  useEffect(() => onNotificationAction(({ action, tag }) => {
+    const id = tag.startsWith('timer:') ? tag.slice('timer:'.length) : null;
+    if (id === null) return;
+    if (action === 'restart') restart(id);
+    if (action === 'stop') dismiss(id);
+  }), [restart, dismiss]);
+
+  // A timer removed or restarted from the timer view stops ringing too.
+  const ringing = timers.filter(timer => ringingIds.includes(timer.id) && timer.run.finished);
+
+  useEffect(() => {
+    const stale = ringingIds.filter(id => !ringing.some(timer => timer.id === id));
+    if (stale.length > 0) ringingTimerStore.set(prev => prev.filter(id => !stale.includes(id)));
+  }, [ringingIds, ringing]);
+
+  return { ringing, dismiss, restart };
+};
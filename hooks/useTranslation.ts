@@ -0,0 +1,13 @@
+import { useCallback, useMemo } from 'react';
+import { MessageKey } from '../locales/en';
+import { settingsStore } from '../services/settingsStore';
+import { MessageParams, resolveLocale, translate } from '../services/i18n';
+import { useStore } from './useStore';
+
+/** The `t` function for the current locale; components re-render when the language setting changes. */
+export const useTranslation = () => {
+  const { locale: preference } = useStore(settingsStore);
+  const locale = useMemo(() => resolveLocale(preference), [preference]);
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(locale, key, params), [locale]);
+  return { t, locale };
+};
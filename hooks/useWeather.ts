@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CachedWeather, Coordinates, LocaleId, WeatherProvider } from '../types';
+import { getCachedWeather, cacheWeather, isWeatherStale } from '../services/weatherCache';
+
+/**
+ * Stale-while-revalidate weather for a location: a cached reading is shown
+ * immediately and only refetched once it is older than the cache TTL. When a
+ * refetch fails the cached reading stays on screen alongside the error.
+ * Switching `language` fetches the reading again with text in that language.
+ */
+export const useWeather = (provider: WeatherProvider, coords: Coordinates | null, language: LocaleId) => {
+  const [entry, setEntry] = useState<CachedWeather | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const requestIdRef = useRef(0);
+
+  const refresh = useCallback(async (target: Coordinates) => {
+    // Ignore responses for a location the user has since moved away from.
+    const requestId = ++requestIdRef.current;
+    setRefreshing(true);
+    setError(null);
+    try {
+      const result = await provider.fetchWeather(target.lat, target.lon, language);
+      if (requestId === requestIdRef.current) {
+        setEntry(cacheWeather(provider.id, target, language, result));
+      }
+    } catch (e) {
+      if (requestId === requestIdRef.current) setError(e);
+    } finally {
+      if (requestId === requestIdRef.current) setRefreshing(false);
+    }
+  }, [provider, language]);
+
+  useEffect(() => {
+    if (!coords) return;
+    const cached = getCachedWeather(provider.id, coords, language);
+    setEntry(cached);
+    setError(null);
+    if (!cached || isWeatherStale(cached)) {
+      refresh(coords);
+    }
+  }, [provider, coords, language, refresh]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      if (coords && (!entry || isWeatherStale(entry))) refresh(coords);
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [coords, entry, refresh]);
+
+  return { entry, error, refreshing, online, refresh };
+};
@@ -0,0 +1,77 @@
+import { useEffect } from 'react';
+import { Coordinates, WeatherProvider } from '../types';
+import { settingsStore } from '../services/settingsStore';
+import { locationStore } from '../services/locationStore';
+import { getCachedWeather, getLatestCachedWeather, cacheWeather, isWeatherStale } from '../services/weatherCache';
+import { collectWeatherAlerts, isWeatherAlertNotified, markWeatherAlertNotified, WEATHER_ALERT_ICONS } from '../services/weatherAlerts';
+import { getWeatherProvider } from '../services/weatherProviders';
+import { getLocale } from '../services/i18n';
+import { showNotification } from '../services/notificationService';
+import { startRinger, DEFAULT_ALARM_SOUND_ID } from '../services/soundLibrary';
+import { VIBRATION_PATTERNS } from '../services/soundEngine';
+import { useStore } from './useStore';
+
+const CHECK_INTERVAL_MS = 30 * 60_000;
+
+// The saved default location if there is one, otherwise wherever the weather view was last used.
+const getWatchedCoords = (provider: WeatherProvider): Coordinates | null => {
+  const { locations, defaultId } = locationStore.get();
+  const saved = locations.find(location => location.id === defaultId);
+  return saved?.coords ?? getLatestCachedWeather(provider.id)?.coords ?? null;
+};
+
+const checkWeatherAlerts = async (provider: WeatherProvider) => {
+  const coords = getWatchedCoords(provider);
+  if (!coords) return;
+
+  const language = getLocale().id;
+  let entry = getCachedWeather(provider.id, coords, language);
+  if (!entry || isWeatherStale(entry)) {
+    try {
+      entry = cacheWeather(provider.id, coords, language, await provider.fetchWeather(coords.lat, coords.lon, language));
+    } catch (error) {
+      console.warn('Background weather check failed:', error);
+      if (!entry) return;
+    }
+  }
+
+  const settings = settingsStore.get();
+  const fresh = collectWeatherAlerts(entry.result, settings).filter(alert => !isWeatherAlertNotified(alert.id));
+  if (fresh.length === 0) return;
+
+  startRinger({
+    soundId: settings.sounds.alarmSoundId,
+    fallbackId: DEFAULT_ALARM_SOUND_ID,
+    volume: settings.sounds.volume,
+    loop: false,
+    vibration: settings.sounds.vibrate ? VIBRATION_PATTERNS.ALERT : null,
+  });
+  fresh.forEach(alert => {
+    markWeatherAlertNotified(alert.id);
+    showNotification({
+      title: `${WEATHER_ALERT_ICONS[alert.kind]} ${alert.title}`,
+      body: `${entry.result.weatherData.city}: ${alert.description}`,
+      tag: `weather-alert:${alert.id}`,
+      requireInteraction: alert.severity === 'warning',
+    });
+  });
+};
+
+/**
+ * When the user opts in, checks the weather for their default location every
+ * half hour while the app is open, and raises new alerts as notifications
+ * through the same notification service that rings alarms.
+ */
+export const useWeatherAlertMonitor = () => {
+  const { weatherAlerts } = useStore(settingsStore);
+  useEffect(() => {
+    if (!weatherAlerts.backgroundCheck) return;
+    const provider = getWeatherProvider();
+    const check = () => {
+      if (navigator.onLine) checkWeatherAlerts(provider);
+    };
+    check();
+    const intervalId = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [weatherAlerts.backgroundCheck]);
+};
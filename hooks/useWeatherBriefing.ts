@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { CachedWeather, WeatherBriefing } from '../types';
+import { fetchWeatherBriefing, getCachedBriefing } from '../services/weatherBriefing';
+import { hasGeminiApiKey } from '../services/geminiClient';
+import { settingsStore } from '../services/settingsStore';
+import { useStore } from './useStore';
+
+/** The Gemini briefing for a reading, or null while it loads, offline, without an API key, or when switched off. */
+export const useWeatherBriefing = (entry: CachedWeather | null) => {
+  const { temperatureUnit, weatherBriefing: enabled } = useStore(settingsStore);
+  const [briefing, setBriefing] = useState<WeatherBriefing | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const cached = entry && enabled ? getCachedBriefing(entry, temperatureUnit) : null;
+    setBriefing(cached);
+    setLoading(false);
+    if (!entry || !enabled || cached || !hasGeminiApiKey() || !navigator.onLine) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchWeatherBriefing(entry, temperatureUnit).then(result => {
+      if (cancelled) return;
+      setBriefing(result);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [entry, temperatureUnit, enabled]);
+
+  return { briefing, loading };
+};
@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './services/notificationService';
+import { installAudioUnlock } from './services/soundEngine';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,3 +16,8 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Only built apps get the service worker: under the dev server its cache would serve stale modules
+// in place of the ones Vite recompiles and hot-reloads.
+if (import.meta.env.PROD) registerServiceWorker();
+installAudioUnlock();
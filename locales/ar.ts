@@ -0,0 +1,361 @@
+import { Catalog } from './en';
+
+const ar: Catalog = {
+  'app.name': 'Orientation Sense',
+  'app.rotatePrompt': 'أدِر جهازك لاكتشاف أدوات مختلفة.',
+
+  'nav.tools': 'الأدوات',
+  'nav.home': 'الرئيسية',
+  'nav.settings': 'الإعدادات',
+  'nav.auto': 'تلقائي:',
+  'nav.preview': 'معاينة:',
+
+  'tool.alarm': 'المنبه',
+  'tool.stopwatch': 'ساعة الإيقاف',
+  'tool.timer': 'المؤقت',
+  'tool.weather': 'الطقس',
+  'tool.worldClock': 'الساعة العالمية',
+  'tool.compass': 'البوصلة',
+  'tool.level': 'ميزان الماء',
+
+  'orientation.source.screenOrientation': 'على iOS/iPadOS، أوقف قفل الاتجاه العمودي للاستفادة من كل الميزات.',
+  'orientation.source.deviceOrientation': 'يُقرأ الاتجاه من مستشعرات الحركة في جهازك.',
+  'orientation.source.windowOrientation': 'يُستخدم تدوير الشاشة القديم؛ أوقف قفل الاتجاه العمودي للاستفادة من كل الميزات.',
+  'orientation.source.mediaQuery': 'لا يمكن التمييز إلا بين الوضعين العمودي والأفقي، من شكل النافذة.',
+  'orientation.source.none': 'اكتشاف الاتجاه غير متاح؛ استخدم الأزرار في الأعلى.',
+  'orientation.enableMotion': 'تفعيل مستشعرات الحركة',
+  'orientation.motionDenied': 'تم رفض الوصول إلى الحركة.',
+  'orientation.portraitPrimary': 'عمودي',
+  'orientation.landscapePrimary': 'أفقي (مُدار لليسار)',
+  'orientation.portraitSecondary': 'عمودي (مقلوب)',
+  'orientation.landscapeSecondary': 'أفقي (مُدار لليمين)',
+
+  'sensor.unsupported': 'هذا المتصفح لا يوفر قراءات مستشعرات الحركة.',
+  'sensor.permissionNeeded': 'تحتاج هذه الأداة إلى الوصول إلى مستشعرات الحركة في جهازك.',
+  'sensor.denied': 'تم رفض الوصول إلى الحركة. اسمح به من إعدادات المتصفح، ثم أعد تحميل الصفحة.',
+  'sensor.waiting': 'في انتظار قراءات المستشعرات… لا تحتوي أجهزة الكمبيوتر المكتبية عادةً على مستشعرات حركة.',
+
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.edit': 'تعديل',
+  'common.delete': 'حذف',
+  'common.start': 'بدء',
+  'common.stop': 'إيقاف',
+  'common.pause': 'إيقاف مؤقت',
+  'common.reset': 'إعادة ضبط',
+  'common.restart': 'إعادة التشغيل',
+  'common.retry': 'إعادة المحاولة',
+  'common.tryAgain': 'حاول مرة أخرى',
+
+  'alarm.title': 'المنبه',
+  'alarm.defaultLabel': 'منبه',
+  'alarm.nameField': 'اسم المنبه',
+  'alarm.timeField': 'وقت المنبه',
+  'alarm.repeat': 'التكرار',
+  'alarm.repeatOn': 'التكرار في',
+  'alarm.sound': 'الصوت',
+  'alarm.snoozed': 'مؤجل',
+  'alarm.enable': 'تفعيل {label}',
+  'alarm.disable': 'تعطيل {label}',
+  'alarm.delete': 'حذف {label}',
+  'alarm.empty': 'لا توجد منبهات بعد.',
+  'alarm.add': 'إضافة منبه',
+  'alarm.ringing': 'المنبه يرن',
+  'alarm.dueAt': 'منبه الساعة {time}',
+  'alarm.missedDueAt': 'منبه فائت — كان موعده {time}',
+  'alarm.snooze': 'غفوة',
+  'alarm.snoozeFor': {
+    zero: 'غفوة {count} دقيقة',
+    one: 'غفوة دقيقة واحدة',
+    two: 'غفوة دقيقتين',
+    few: 'غفوة {count} دقائق',
+    many: 'غفوة {count} دقيقة',
+    other: 'غفوة {count} دقيقة',
+  },
+  'alarm.announceRinging': 'المنبه: {label}',
+  'alarm.announceMissed': 'منبه فائت: {label}',
+
+  'repeat.once': 'مرة واحدة',
+  'repeat.weekdays': 'أيام العمل',
+  'repeat.custom': 'مخصص',
+  'repeat.everyDay': 'كل يوم',
+
+  'stopwatch.title': 'ساعة الإيقاف',
+  'stopwatch.elapsed': 'الوقت المنقضي',
+  'stopwatch.lap': 'لفة',
+  'stopwatch.lapNumber': 'اللفة {number}',
+  'stopwatch.laps': 'اللفات',
+  'stopwatch.lapCount': {
+    zero: 'لا لفات',
+    one: 'لفة واحدة',
+    two: 'لفتان',
+    few: '{count} لفات',
+    many: '{count} لفة',
+    other: '{count} لفة',
+  },
+  'stopwatch.average': 'المتوسط',
+  'stopwatch.fastest': '(الأسرع)',
+  'stopwatch.slowest': '(الأبطأ)',
+  'stopwatch.history': 'السجل ({count})',
+  'stopwatch.hideHistory': 'إخفاء السجل',
+  'stopwatch.noSessions': 'لا توجد جلسات محفوظة بعد. تُحفظ الجلسات عند إعادة الضبط.',
+  'stopwatch.exportCsv': 'تصدير CSV',
+  'stopwatch.exportJson': 'تصدير JSON',
+  'stopwatch.announceStarted': 'بدأت ساعة الإيقاف',
+  'stopwatch.announceStopped': 'توقفت ساعة الإيقاف عند {time}',
+  'stopwatch.announceLap': 'اللفة {number}: {time}',
+
+  'timer.title': 'المؤقت',
+  'timer.defaultLabel': 'مؤقت',
+  'timer.labelField': 'اسم المؤقت',
+  'timer.labelPlaceholder': 'الاسم (اختياري)',
+  'timer.hours': 'ساعات',
+  'timer.minutes': 'دقائق',
+  'timer.seconds': 'ثوانٍ',
+  'timer.quickDurations': 'مدد سريعة',
+  'timer.minuteCount': {
+    zero: '{count} دقيقة',
+    one: 'دقيقة واحدة',
+    two: 'دقيقتان',
+    few: '{count} دقائق',
+    many: '{count} دقيقة',
+    other: '{count} دقيقة',
+  },
+  'timer.minutesShort': '{count} د',
+  'timer.savedPrograms': 'البرامج المحفوظة',
+  'timer.newProgram': 'برنامج جديد',
+  'timer.customDuration': 'مدة مخصصة',
+  'timer.add': '+ إضافة مؤقت',
+  'timer.remove': 'إزالة {label}',
+  'timer.remaining': 'الوقت المتبقي في {label}',
+  'timer.progress': 'الجولة {round}/{rounds} · الخطوة {step}/{steps}',
+  'timer.done': 'انتهى',
+  'timer.endsAt': 'ينتهي عند {time}',
+  'timer.previousStep': 'الخطوة السابقة',
+  'timer.skipStep': 'تخطي الخطوة',
+  'timer.finished': 'انتهى المؤقت',
+  'timer.timesUp': 'انتهى الوقت',
+  'timer.notificationTitle': 'انتهى الوقت!',
+  'timer.notificationBody': 'انتهى مؤقت {label}.',
+  'timer.roundOf': 'الجولة {round} من {rounds}',
+  'timer.announceStage': '{label}: {stage}، الجولة {round} من {rounds}',
+  'timer.announceFinished': 'انتهى مؤقت {label}',
+  'timer.announceFinalMinute': '{label}: بقيت دقيقة واحدة',
+
+  'timerProgram.name': 'اسم البرنامج',
+  'timerProgram.stageName': 'اسم المرحلة {number}',
+  'timerProgram.stageType': 'نوع المرحلة {number}',
+  'timerProgram.stageMinutes': 'دقائق المرحلة {number}',
+  'timerProgram.stageSeconds': 'ثواني المرحلة {number}',
+  'timerProgram.removeStage': 'إزالة المرحلة {number}',
+  'timerProgram.work': 'عمل',
+  'timerProgram.rest': 'راحة',
+  'timerProgram.minutesUnit': 'د',
+  'timerProgram.secondsUnit': 'ث',
+  'timerProgram.addStage': '+ إضافة مرحلة',
+  'timerProgram.rounds': 'الجولات',
+  'timerProgram.pomodoro': 'بومودورو',
+  'timerProgram.focus': 'تركيز',
+  'timerProgram.break': 'استراحة',
+  'timerProgram.hiit': 'تمارين متقطعة',
+  'timerProgram.on': 'تمرين',
+  'timerProgram.off': 'راحة',
+
+  'weather.title': 'طقس اليوم',
+  'weather.loading': 'جارٍ جلب بيانات الطقس...',
+  'weather.updating': 'جارٍ التحديث…',
+  'weather.lastUpdated': 'آخر تحديث {age}',
+  'weather.justNow': 'الآن',
+  'weather.offline': 'أنت غير متصل بالإنترنت.',
+  'weather.showingLastKnown': 'تُعرض آخر قراءة معروفة.',
+  'weather.humidity': 'الرطوبة:',
+  'weather.wind': 'الرياح:',
+  'weather.sources': 'المصادر:',
+  'weather.dataFrom': 'بيانات الطقس: {provider}',
+  'weather.currentLocation': 'الموقع الحالي',
+  'weather.previousLocation': 'الموقع السابق',
+  'weather.nextLocation': 'الموقع التالي',
+  'weather.useAsDefault': 'استخدامه موقعًا افتراضيًا',
+  'weather.defaultLocation': 'الموقع الافتراضي',
+  'weather.removeLocation': 'إزالة {name}',
+  'weather.addLocation': 'إضافة موقع',
+  'weather.briefingLoading': 'جارٍ إعداد الملخص…',
+  'weather.briefing': 'ملخص الطقس',
+  'weather.briefingSources': 'استنادًا إلى',
+  'weather.alertFrom': 'من {time}',
+  'weather.alertUntil': 'حتى {time}',
+  'weather.searchField': 'ابحث عن مدينة',
+  'weather.search': 'بحث',
+  'weather.searchFailed': 'تعذر البحث عن الأماكن. تحقق من اتصالك وحاول مرة أخرى.',
+  'weather.noMatches': 'لم يُعثر على أماكن.',
+  'weather.error.unknown': 'حدث خطأ غير معروف.',
+  'weather.error.missingApiKey': 'خدمة الطقس معطلة. لم يُعثر على مفتاح API.',
+  'weather.error.network': 'تعذر الوصول إلى خدمة الطقس. تحقق من اتصالك وحاول مرة أخرى.',
+  'weather.error.invalidData': 'أعادت خدمة الطقس بيانات لم نتمكن من فهمها. حاول مرة أخرى.',
+
+  'weatherAlert.frost': 'صقيع متوقع',
+  'weatherAlert.frostDetail': '{temperature} الساعة {time}، أقل من الحد الذي اخترته وهو {threshold}.',
+  'weatherAlert.heat': 'حر متوقع',
+  'weatherAlert.heatDetail': '{temperature} الساعة {time}، أعلى من الحد الذي اخترته وهو {threshold}.',
+  'weatherAlert.rain': 'أمطار محتملة',
+  'weatherAlert.rainDetail': 'احتمال هطول بنسبة {chance}٪ الساعة {time}.',
+  'weatherAlert.wind': 'رياح قوية',
+  'weatherAlert.windDetail': 'سرعة الرياح {speed}، أعلى من الحد الذي اخترته وهو {threshold}.',
+
+  'location.error.denied': 'تم رفض الإذن. فعّل الوصول إلى الموقع لهذا الموقع من إعدادات المتصفح، ثم حاول مرة أخرى.',
+  'location.error.unavailable': 'معلومات الموقع غير متاحة. تحقق من اتصالك أو حاول لاحقًا.',
+  'location.error.timeout': 'انتهت مهلة طلب تحديد موقعك. حاول مرة أخرى.',
+  'location.error.unknown': 'حدث خطأ غير معروف أثناء تحديد موقعك.',
+  'location.error.unsupported': 'متصفحك لا يدعم تحديد الموقع الجغرافي.',
+
+  'forecast.hourly': 'التوقعات بالساعة',
+  'forecast.next24Hours': 'الساعات الـ 24 القادمة',
+  'forecast.now': 'الآن',
+  'forecast.daily': 'توقعات 7 أيام',
+  'forecast.today': 'اليوم',
+
+  'condition.clear': 'صافٍ',
+  'condition.mainlyClear': 'صافٍ في الغالب',
+  'condition.partlyCloudy': 'غائم جزئيًا',
+  'condition.overcast': 'غائم',
+  'condition.fog': 'ضباب',
+  'condition.drizzle': 'رذاذ',
+  'condition.rain': 'مطر',
+  'condition.snow': 'ثلج',
+  'condition.thunderstorm': 'عاصفة رعدية',
+  'condition.unknown': 'غير معروف',
+
+  'severeWeather.thunderstormWithHail': 'عاصفة رعدية مع برد',
+  'severeWeather.thunderstorm': 'عاصفة رعدية',
+  'severeWeather.freezingRain': 'مطر متجمد',
+  'severeWeather.heavyRain': 'أمطار غزيرة',
+  'severeWeather.heavySnow': 'ثلوج كثيفة',
+  'severeWeather.forecastHours': 'يُتوقع {title} في {count} من الساعات الـ {hours} القادمة.',
+
+  'worldClock.title': 'الساعة العالمية',
+  'worldClock.localTime': '{city} · التوقيت المحلي',
+  'worldClock.empty': 'أضف مدينة لمقارنة الأوقات.',
+  'worldClock.dayAndDifference': '{day}، {difference}',
+  'worldClock.remove': 'إزالة {city}',
+  'worldClock.zoneField': 'المنطقة الزمنية المراد إضافتها',
+  'worldClock.chooseCity': 'اختر مدينة…',
+  'worldClock.add': 'إضافة',
+
+  'timeZone.sameTime': 'التوقيت نفسه',
+  'timeZone.differenceHours': '{sign}{hours} س',
+  'timeZone.differenceHoursMinutes': '{sign}{hours} س {minutes} د',
+  'timeZone.today': 'اليوم',
+  'timeZone.tomorrow': 'غدًا',
+  'timeZone.yesterday': 'أمس',
+
+  'compass.title': 'البوصلة',
+  'compass.noHeading': 'هذا الجهاز لا يحدد اتجاه الشمال.',
+  'compass.hint': 'الاتجاه المغناطيسي. أمسك الجهاز بشكل مستوٍ وبعيدًا عن المعادن.',
+  'compass.north': 'ش',
+  'compass.northEast': 'ش ق',
+  'compass.east': 'ق',
+  'compass.southEast': 'ج ق',
+  'compass.south': 'ج',
+  'compass.southWest': 'ج غ',
+  'compass.west': 'غ',
+  'compass.northWest': 'ش غ',
+
+  'level.title': 'ميزان الماء',
+  'level.level': 'مستوٍ',
+  'level.notLevel': 'غير مستوٍ',
+  'level.hint': 'ضع الجهاز بشكل مسطح على السطح للتحقق منه.',
+
+  'sound.default': 'الافتراضي',
+  'sound.preview': 'معاينة {label}',
+  'sound.stopPreview': 'إيقاف المعاينة',
+  'sound.classicAlarm': 'منبه كلاسيكي',
+  'sound.chime': 'رنين',
+  'sound.bell': 'جرس',
+  'sound.softTone': 'نغمة هادئة',
+
+  'command.field': 'أمر',
+  'command.placeholder': 'جرّب «مؤقت شاي 10 دقائق»',
+  'command.dictate': 'إملاء أمر',
+  'command.stopDictation': 'إيقاف الإملاء',
+  'command.go': 'تنفيذ',
+  'command.alarmSet': 'تم ضبط المنبه «{label}» على {time} ({repeat})',
+  'command.timerStarted': 'بدأ {label} لمدة {duration}',
+  'command.programStarted': 'بدأ {label}',
+  'command.stopwatchStarted': 'بدأت ساعة الإيقاف',
+  'command.stopwatchPaused': 'توقفت ساعة الإيقاف مؤقتًا',
+  'command.lapRecorded': 'تم تسجيل اللفة',
+  'command.stopwatchReset': 'تمت إعادة ضبط ساعة الإيقاف',
+  'command.error.unknown': 'حدث خطأ ما. حاول مرة أخرى.',
+  'command.error.missingApiKey': 'الأوامر معطلة. لم يُعثر على مفتاح API.',
+  'command.error.network': 'تعذر الوصول إلى خدمة الأوامر. تحقق من اتصالك وحاول مرة أخرى.',
+  'command.error.notUnderstood': 'عذرًا، يمكنني فقط ضبط المنبهات وتشغيل المؤقتات والتحكم في ساعة الإيقاف.',
+  'command.error.invalidArguments': 'كان الأمر ينقصه بعض التفاصيل. حاول صياغته بطريقة أخرى.',
+  'command.speechDenied': 'تم رفض الوصول إلى الميكروفون.',
+  'command.speechNotUnderstood': 'تعذر فهم التسجيل.',
+
+  'settings.language': 'اللغة',
+  'settings.languageAuto': 'لغة المتصفح ({language})',
+  'settings.temperature': 'درجة الحرارة',
+  'settings.windSpeed': 'سرعة الرياح',
+  'settings.clock': 'الساعة',
+  'settings.clock12h': '12 ساعة',
+  'settings.clock24h': '24 ساعة',
+  'settings.navigation': 'التنقل',
+  'settings.navigationOrientation': 'حسب الاتجاه',
+  'settings.navigationManual': 'يدوي',
+  'settings.orientationTools': 'الأداة لكل اتجاه',
+  'settings.weatherBriefing': 'ملخص الطقس',
+  'settings.weatherBriefingDescription': 'يطلب من Gemini ملخصًا قصيرًا واقتراحات مع كل قراءة جديدة.',
+  'settings.weatherBriefingNeedsKey': 'يتطلب مفتاح Gemini API.',
+  'settings.weatherAlerts': 'تنبيهات الطقس',
+  'settings.backgroundCheck': 'التحقق في الخلفية وإعلامي',
+  'settings.backgroundCheckField': 'تنبيهات الطقس في الخلفية',
+  'settings.frostBelow': 'صقيع أقل من',
+  'settings.heatAbove': 'حر أعلى من',
+  'settings.windAbove': 'رياح أعلى من',
+  'settings.rainChanceFrom': 'احتمال المطر من',
+  'settings.threshold': 'حد {label}',
+  'settings.sounds': 'الأصوات',
+  'settings.alarmSound': 'صوت المنبه',
+  'settings.timerSound': 'صوت المؤقت',
+  'settings.volume': 'مستوى الصوت',
+  'settings.fadeIn': 'رفع صوت المنبهات تدريجيًا خلال',
+  'settings.fadeOff': 'إيقاف',
+  'settings.fadeSeconds': '{count} ث',
+  'settings.vibrate': 'الاهتزاز عند الرنين',
+  'settings.deleteSound': 'حذف {name}',
+  'settings.addingSound': 'جارٍ إضافة الصوت…',
+  'settings.addSound': '+ إضافة صوتك الخاص',
+  'settings.soundError.unknown': 'تعذرت إضافة هذا الصوت. حاول مرة أخرى.',
+  'settings.soundError.tooLarge': 'حجم «{name}» أكبر من {size} ميغابايت. اختر مقطعًا أقصر.',
+  'settings.soundError.unsupported': '«{name}» ليس ملفًا صوتيًا يمكن لهذا المتصفح تشغيله.',
+  'settings.soundError.storage': 'تعذر حفظ الصوت. ربما نفدت مساحة التخزين في متصفحك.',
+  'settings.backup': 'النسخ الاحتياطي',
+  'settings.backupDescription': 'احفظ إعداداتك ومنبهاتك وبرامج المؤقت وسجل ساعة الإيقاف والأماكن في ملف، أو استعدها على جهاز آخر. الأصوات المخصصة غير مضمّنة.',
+  'settings.backupSection.settings': 'الإعدادات',
+  'settings.backupSection.alarms': 'المنبهات',
+  'settings.backupSection.timerPrograms': 'برامج المؤقت',
+  'settings.backupSection.stopwatchHistory': 'سجل ساعة الإيقاف',
+  'settings.backupSection.locations': 'الأماكن المحفوظة',
+  'settings.backupSection.worldClocks': 'الساعات العالمية',
+  'settings.restoreBackup': 'استعادة النسخة الاحتياطية',
+  'settings.restoreConfirm': 'هل تريد استبدال {sections} بالنسخة الاحتياطية؟',
+  'settings.restoreConfirmFrom': 'هل تريد استبدال {sections} بالنسخة الاحتياطية المؤرخة {date}؟',
+  'settings.restore': 'استعادة',
+  'settings.export': 'تصدير',
+  'settings.import': 'استيراد…',
+  'settings.restored': 'تمت استعادة {sections}.',
+  'settings.skippedEntries': {
+    zero: 'تم استبعاد {count} إدخال تالف.',
+    one: 'تم استبعاد إدخال تالف واحد.',
+    two: 'تم استبعاد إدخالين تالفين.',
+    few: 'تم استبعاد {count} إدخالات تالفة.',
+    many: 'تم استبعاد {count} إدخالًا تالفًا.',
+    other: 'تم استبعاد {count} إدخال تالف.',
+  },
+  'settings.backupError.unknown': 'تعذرت قراءة النسخة الاحتياطية. حاول مرة أخرى.',
+  'settings.backupError.invalidFile': 'الملف ليس نسخة احتياطية من Orientation Sense، أو أنه تالف.',
+  'settings.backupError.unsupportedVersion': 'لا يستطيع هذا الإصدار من التطبيق قراءة النسخة الاحتياطية. حدّث التطبيق وحاول مرة أخرى.',
+};
+
+export default ar;
@@ -0,0 +1,344 @@
+import { Message } from '../types';
+
+/**
+ * English messages. This is the source catalog: its keys define `MessageKey`,
+ * and every other locale must translate all of them. `{name}` placeholders are
+ * filled in from the params passed to `t`; objects pick a wording by the
+ * plural category of the `count` param.
+ */
+const en = {
+  'app.name': 'Orientation Sense',
+  'app.rotatePrompt': 'Rotate your device to discover different tools.',
+
+  'nav.tools': 'Tools',
+  'nav.home': 'Home',
+  'nav.settings': 'Settings',
+  'nav.auto': 'Auto:',
+  'nav.preview': 'Preview:',
+
+  'tool.alarm': 'Alarm',
+  'tool.stopwatch': 'Stopwatch',
+  'tool.timer': 'Timer',
+  'tool.weather': 'Weather',
+  'tool.worldClock': 'World Clock',
+  'tool.compass': 'Compass',
+  'tool.level': 'Level',
+
+  'orientation.source.screenOrientation': 'On iOS/iPadOS, disable Portrait Orientation Lock for all features.',
+  'orientation.source.deviceOrientation': 'Orientation is read from your device\'s motion sensors.',
+  'orientation.source.windowOrientation': 'Using legacy screen rotation; disable Portrait Orientation Lock for all features.',
+  'orientation.source.mediaQuery': 'Only portrait and landscape can be detected, from the window shape.',
+  'orientation.source.none': 'Orientation detection is not available; use the buttons above.',
+  'orientation.enableMotion': 'Enable motion sensors',
+  'orientation.motionDenied': 'Motion access denied.',
+  'orientation.portraitPrimary': 'Portrait',
+  'orientation.landscapePrimary': 'Landscape (rotated left)',
+  'orientation.portraitSecondary': 'Portrait (upside down)',
+  'orientation.landscapeSecondary': 'Landscape (rotated right)',
+
+  'sensor.unsupported': 'This browser does not provide motion sensor readings.',
+  'sensor.permissionNeeded': 'This tool needs access to your device\'s motion sensors.',
+  'sensor.denied': 'Motion access denied. Allow it in your browser settings, then reload.',
+  'sensor.waiting': 'Waiting for sensor readings… Desktop computers usually have no motion sensors.',
+
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.start': 'Start',
+  'common.stop': 'Stop',
+  'common.pause': 'Pause',
+  'common.reset': 'Reset',
+  'common.restart': 'Restart',
+  'common.retry': 'Retry',
+  'common.tryAgain': 'Try Again',
+
+  'alarm.title': 'Alarm Clock',
+  'alarm.defaultLabel': 'Alarm',
+  'alarm.nameField': 'Alarm name',
+  'alarm.timeField': 'Set alarm time',
+  'alarm.repeat': 'Repeat',
+  'alarm.repeatOn': 'Repeat on',
+  'alarm.sound': 'Sound',
+  'alarm.snoozed': 'Snoozed',
+  'alarm.enable': 'Enable {label}',
+  'alarm.disable': 'Disable {label}',
+  'alarm.delete': 'Delete {label}',
+  'alarm.empty': 'No alarms yet.',
+  'alarm.add': 'Add Alarm',
+  'alarm.ringing': 'Alarm ringing',
+  'alarm.dueAt': 'Alarm for {time}',
+  'alarm.missedDueAt': 'Missed alarm — was due at {time}',
+  'alarm.snooze': 'Snooze',
+  'alarm.snoozeFor': { one: 'Snooze {count} minute', other: 'Snooze {count} minutes' },
+  'alarm.announceRinging': 'Alarm: {label}',
+  'alarm.announceMissed': 'Missed alarm: {label}',
+
+  'repeat.once': 'Once',
+  'repeat.weekdays': 'Weekdays',
+  'repeat.custom': 'Custom',
+  'repeat.everyDay': 'Every day',
+
+  'stopwatch.title': 'Stopwatch',
+  'stopwatch.elapsed': 'Elapsed time',
+  'stopwatch.lap': 'Lap',
+  'stopwatch.lapNumber': 'Lap {number}',
+  'stopwatch.laps': 'Laps',
+  'stopwatch.lapCount': { one: '{count} lap', other: '{count} laps' },
+  'stopwatch.average': 'Avg',
+  'stopwatch.fastest': '(fastest)',
+  'stopwatch.slowest': '(slowest)',
+  'stopwatch.history': 'History ({count})',
+  'stopwatch.hideHistory': 'Hide history',
+  'stopwatch.noSessions': 'No saved sessions yet. Sessions are saved when you reset.',
+  'stopwatch.exportCsv': 'Export CSV',
+  'stopwatch.exportJson': 'Export JSON',
+  'stopwatch.announceStarted': 'Stopwatch started',
+  'stopwatch.announceStopped': 'Stopwatch stopped at {time}',
+  'stopwatch.announceLap': 'Lap {number}: {time}',
+
+  'timer.title': 'Timer',
+  'timer.defaultLabel': 'Timer',
+  'timer.labelField': 'Timer label',
+  'timer.labelPlaceholder': 'Label (optional)',
+  'timer.hours': 'Hours',
+  'timer.minutes': 'Minutes',
+  'timer.seconds': 'Seconds',
+  'timer.quickDurations': 'Quick durations',
+  'timer.minuteCount': { one: '{count} minute', other: '{count} minutes' },
+  'timer.minutesShort': '{count}m',
+  'timer.savedPrograms': 'Saved programs',
+  'timer.newProgram': 'New program',
+  'timer.customDuration': 'Custom duration',
+  'timer.add': '+ Add timer',
+  'timer.remove': 'Remove {label}',
+  'timer.remaining': '{label} remaining',
+  'timer.progress': 'Round {round}/{rounds} · Step {step}/{steps}',
+  'timer.done': 'Done',
+  'timer.endsAt': 'Ends at {time}',
+  'timer.previousStep': 'Previous step',
+  'timer.skipStep': 'Skip step',
+  'timer.finished': 'Timer finished',
+  'timer.timesUp': 'Time\'s up',
+  'timer.notificationTitle': 'Time\'s up!',
+  'timer.notificationBody': 'Your {label} timer has finished.',
+  'timer.roundOf': 'Round {round} of {rounds}',
+  'timer.announceStage': '{label}: {stage}, round {round} of {rounds}',
+  'timer.announceFinished': '{label} timer finished',
+  'timer.announceFinalMinute': '{label}: one minute left',
+
+  'timerProgram.name': 'Program name',
+  'timerProgram.stageName': 'Stage {number} name',
+  'timerProgram.stageType': 'Stage {number} type',
+  'timerProgram.stageMinutes': 'Stage {number} minutes',
+  'timerProgram.stageSeconds': 'Stage {number} seconds',
+  'timerProgram.removeStage': 'Remove stage {number}',
+  'timerProgram.work': 'Work',
+  'timerProgram.rest': 'Rest',
+  'timerProgram.minutesUnit': 'min',
+  'timerProgram.secondsUnit': 'sec',
+  'timerProgram.addStage': '+ Add stage',
+  'timerProgram.rounds': 'Rounds',
+  'timerProgram.pomodoro': 'Pomodoro',
+  'timerProgram.focus': 'Focus',
+  'timerProgram.break': 'Break',
+  'timerProgram.hiit': 'HIIT',
+  'timerProgram.on': 'On',
+  'timerProgram.off': 'Off',
+
+  'weather.title': 'Today\'s Weather',
+  'weather.loading': 'Fetching weather data...',
+  'weather.updating': 'Updating…',
+  'weather.lastUpdated': 'Last updated {age}',
+  'weather.justNow': 'just now',
+  'weather.offline': 'You are offline.',
+  'weather.showingLastKnown': 'Showing the last known reading.',
+  'weather.humidity': 'Humidity:',
+  'weather.wind': 'Wind:',
+  'weather.sources': 'Sources:',
+  'weather.dataFrom': 'Weather data: {provider}',
+  'weather.currentLocation': 'Current location',
+  'weather.previousLocation': 'Previous location',
+  'weather.nextLocation': 'Next location',
+  'weather.useAsDefault': 'Use as default location',
+  'weather.defaultLocation': 'Default location',
+  'weather.removeLocation': 'Remove {name}',
+  'weather.addLocation': 'Add a location',
+  'weather.briefingLoading': 'Preparing your briefing…',
+  'weather.briefing': 'Weather briefing',
+  'weather.briefingSources': 'Based on',
+  'weather.alertFrom': 'From {time}',
+  'weather.alertUntil': 'Until {time}',
+  'weather.searchField': 'Search for a city',
+  'weather.search': 'Search',
+  'weather.searchFailed': 'Could not search for places. Please check your connection and try again.',
+  'weather.noMatches': 'No places found.',
+  'weather.error.unknown': 'An unknown error occurred.',
+  'weather.error.missingApiKey': 'Weather service is disabled. API key not found.',
+  'weather.error.network': 'Could not reach the weather service. Please check your connection and try again.',
+  'weather.error.invalidData': 'The weather service returned data we could not understand. Please try again.',
+
+  'weatherAlert.frost': 'Frost expected',
+  'weatherAlert.frostDetail': '{temperature} at {time}, below your {threshold} threshold.',
+  'weatherAlert.heat': 'Heat expected',
+  'weatherAlert.heatDetail': '{temperature} at {time}, above your {threshold} threshold.',
+  'weatherAlert.rain': 'Rain likely',
+  'weatherAlert.rainDetail': '{chance}% chance of precipitation at {time}.',
+  'weatherAlert.wind': 'Strong wind',
+  'weatherAlert.windDetail': 'Wind is {speed}, above your {threshold} threshold.',
+
+  'location.error.denied': 'Permission Denied. Please enable location access for this site in your browser settings, then try again.',
+  'location.error.unavailable': 'Location information is unavailable. Please check your connection or try again later.',
+  'location.error.timeout': 'The request to get user location timed out. Please try again.',
+  'location.error.unknown': 'An unknown error occurred while fetching your location.',
+  'location.error.unsupported': 'Geolocation is not supported by your browser.',
+
+  'forecast.hourly': 'Hourly forecast',
+  'forecast.next24Hours': 'Next 24 hours',
+  'forecast.now': 'Now',
+  'forecast.daily': '7-day forecast',
+  'forecast.today': 'Today',
+
+  'condition.clear': 'Clear',
+  'condition.mainlyClear': 'Mainly Clear',
+  'condition.partlyCloudy': 'Partly Cloudy',
+  'condition.overcast': 'Overcast',
+  'condition.fog': 'Fog',
+  'condition.drizzle': 'Drizzle',
+  'condition.rain': 'Rain',
+  'condition.snow': 'Snow',
+  'condition.thunderstorm': 'Thunderstorm',
+  'condition.unknown': 'Unknown',
+
+  'severeWeather.thunderstormWithHail': 'Thunderstorm with hail',
+  'severeWeather.thunderstorm': 'Thunderstorm',
+  'severeWeather.freezingRain': 'Freezing rain',
+  'severeWeather.heavyRain': 'Heavy rain',
+  'severeWeather.heavySnow': 'Heavy snow',
+  'severeWeather.forecastHours': '{title} forecast for {count} of the next {hours} hours.',
+
+  'worldClock.title': 'World Clock',
+  'worldClock.localTime': '{city} · Local time',
+  'worldClock.empty': 'Add a city to compare times.',
+  'worldClock.dayAndDifference': '{day}, {difference}',
+  'worldClock.remove': 'Remove {city}',
+  'worldClock.zoneField': 'Time zone to add',
+  'worldClock.chooseCity': 'Choose a city…',
+  'worldClock.add': 'Add',
+
+  'timeZone.sameTime': 'Same time',
+  'timeZone.differenceHours': '{sign}{hours}h',
+  'timeZone.differenceHoursMinutes': '{sign}{hours}h {minutes}m',
+  'timeZone.today': 'Today',
+  'timeZone.tomorrow': 'Tomorrow',
+  'timeZone.yesterday': 'Yesterday',
+
+  'compass.title': 'Compass',
+  'compass.noHeading': 'This device does not report which way is north.',
+  'compass.hint': 'Magnetic heading. Hold the device flat and away from metal.',
+  'compass.north': 'N',
+  'compass.northEast': 'NE',
+  'compass.east': 'E',
+  'compass.southEast': 'SE',
+  'compass.south': 'S',
+  'compass.southWest': 'SW',
+  'compass.west': 'W',
+  'compass.northWest': 'NW',
+
+  'level.title': 'Level',
+  'level.level': 'Level',
+  'level.notLevel': 'Not level',
+  'level.hint': 'Lay the device flat on the surface to check it.',
+
+  'sound.default': 'Default',
+  'sound.preview': 'Preview {label}',
+  'sound.stopPreview': 'Stop preview',
+  'sound.classicAlarm': 'Classic alarm',
+  'sound.chime': 'Chime',
+  'sound.bell': 'Bell',
+  'sound.softTone': 'Soft tone',
+
+  'command.field': 'Command',
+  'command.placeholder': 'Try "10 minute tea timer"',
+  'command.dictate': 'Dictate a command',
+  'command.stopDictation': 'Stop dictation',
+  'command.go': 'Go',
+  'command.alarmSet': 'Alarm "{label}" set for {time} ({repeat})',
+  'command.timerStarted': 'Started {label} for {duration}',
+  'command.programStarted': 'Started {label}',
+  'command.stopwatchStarted': 'Stopwatch started',
+  'command.stopwatchPaused': 'Stopwatch paused',
+  'command.lapRecorded': 'Lap recorded',
+  'command.stopwatchReset': 'Stopwatch reset',
+  'command.error.unknown': 'Something went wrong. Please try again.',
+  'command.error.missingApiKey': 'Commands are disabled. API key not found.',
+  'command.error.network': 'Could not reach the command service. Please check your connection and try again.',
+  'command.error.notUnderstood': 'Sorry, I can only set alarms, start timers and control the stopwatch.',
+  'command.error.invalidArguments': 'That command was missing some details. Try rephrasing it.',
+  'command.speechDenied': 'Microphone access was denied.',
+  'command.speechNotUnderstood': 'Could not understand the recording.',
+
+  'settings.language': 'Language',
+  'settings.languageAuto': 'Browser default ({language})',
+  'settings.temperature': 'Temperature',
+  'settings.windSpeed': 'Wind speed',
+  'settings.clock': 'Clock',
+  'settings.clock12h': '12-hour',
+  'settings.clock24h': '24-hour',
+  'settings.navigation': 'Navigation',
+  'settings.navigationOrientation': 'Follow orientation',
+  'settings.navigationManual': 'Manual',
+  'settings.orientationTools': 'Tool for each orientation',
+  'settings.weatherBriefing': 'Weather briefing',
+  'settings.weatherBriefingDescription': 'Asks Gemini for a short summary and suggestions with each new reading.',
+  'settings.weatherBriefingNeedsKey': 'Needs a Gemini API key.',
+  'settings.weatherAlerts': 'Weather alerts',
+  'settings.backgroundCheck': 'Check in the background and notify me',
+  'settings.backgroundCheckField': 'Background weather alerts',
+  'settings.frostBelow': 'Frost below',
+  'settings.heatAbove': 'Heat above',
+  'settings.windAbove': 'Wind above',
+  'settings.rainChanceFrom': 'Rain chance from',
+  'settings.threshold': '{label} threshold',
+  'settings.sounds': 'Sounds',
+  'settings.alarmSound': 'Alarm sound',
+  'settings.timerSound': 'Timer sound',
+  'settings.volume': 'Volume',
+  'settings.fadeIn': 'Fade in alarms over',
+  'settings.fadeOff': 'Off',
+  'settings.fadeSeconds': '{count}s',
+  'settings.vibrate': 'Vibrate when ringing',
+  'settings.deleteSound': 'Delete {name}',
+  'settings.addingSound': 'Adding sound…',
+  'settings.addSound': '+ Add your own sound',
+  'settings.soundError.unknown': 'Could not add that sound. Please try again.',
+  'settings.soundError.tooLarge': '"{name}" is larger than {size} MB. Pick a shorter clip.',
+  'settings.soundError.unsupported': '"{name}" is not an audio file this browser can play.',
+  'settings.soundError.storage': 'Could not save the sound. Your browser may be out of storage space.',
+  'settings.backup': 'Backup',
+  'settings.backupDescription': 'Save your settings, alarms, timer programs, stopwatch history and places to a file, or restore them on another device. Custom sounds are not included.',
+  'settings.backupSection.settings': 'settings',
+  'settings.backupSection.alarms': 'alarms',
+  'settings.backupSection.timerPrograms': 'timer programs',
+  'settings.backupSection.stopwatchHistory': 'stopwatch history',
+  'settings.backupSection.locations': 'saved places',
+  'settings.backupSection.worldClocks': 'world clocks',
+  'settings.restoreBackup': 'Restore backup',
+  'settings.restoreConfirm': 'Replace your {sections} with the backup?',
+  'settings.restoreConfirmFrom': 'Replace your {sections} with the backup from {date}?',
+  'settings.restore': 'Restore',
+  'settings.export': 'Export',
+  'settings.import': 'Import…',
+  'settings.restored': 'Restored {sections}.',
+  'settings.skippedEntries': { one: '{count} damaged entry was left out.', other: '{count} damaged entries were left out.' },
+  'settings.backupError.unknown': 'Could not read the backup. Please try again.',
+  'settings.backupError.invalidFile': 'The file is not an Orientation Sense backup, or it is damaged.',
+  'settings.backupError.unsupportedVersion': 'This version of the app cannot read the backup. Update the app and try again.',
+};
+
+export type MessageKey = keyof typeof en;
+
+/** A full translation; missing or misspelled keys are type errors. */
+export type Catalog = Record<MessageKey, Message>;
+
+export default en;
@@ -0,0 +1,333 @@
+import { Catalog } from './en';
+
+const es: Catalog = {
+  'app.name': 'Orientation Sense',
+  'app.rotatePrompt': 'Gira tu dispositivo para descubrir distintas herramientas.',
+
+  'nav.tools': 'Herramientas',
+  'nav.home': 'Inicio',
+  'nav.settings': 'Ajustes',
+  'nav.auto': 'Auto:',
+  'nav.preview': 'Vista previa:',
+
+  'tool.alarm': 'Alarma',
+  'tool.stopwatch': 'Cronómetro',
+  'tool.timer': 'Temporizador',
+  'tool.weather': 'Tiempo',
+  'tool.worldClock': 'Reloj mundial',
+  'tool.compass': 'Brújula',
+  'tool.level': 'Nivel',
+
+  'orientation.source.screenOrientation': 'En iOS/iPadOS, desactiva el bloqueo de orientación vertical para usar todas las funciones.',
+  'orientation.source.deviceOrientation': 'La orientación se lee de los sensores de movimiento del dispositivo.',
+  'orientation.source.windowOrientation': 'Se usa la rotación de pantalla antigua; desactiva el bloqueo de orientación vertical para usar todas las funciones.',
+  'orientation.source.mediaQuery': 'Solo se distingue vertical de horizontal, por la forma de la ventana.',
+  'orientation.source.none': 'No se puede detectar la orientación; usa los botones de arriba.',
+  'orientation.enableMotion': 'Activar sensores de movimiento',
+  'orientation.motionDenied': 'Acceso al movimiento denegado.',
+  'orientation.portraitPrimary': 'Vertical',
+  'orientation.landscapePrimary': 'Horizontal (girado a la izquierda)',
+  'orientation.portraitSecondary': 'Vertical (boca abajo)',
+  'orientation.landscapeSecondary': 'Horizontal (girado a la derecha)',
+
+  'sensor.unsupported': 'Este navegador no proporciona lecturas de los sensores de movimiento.',
+  'sensor.permissionNeeded': 'Esta herramienta necesita acceso a los sensores de movimiento del dispositivo.',
+  'sensor.denied': 'Acceso al movimiento denegado. Permítelo en los ajustes del navegador y vuelve a cargar la página.',
+  'sensor.waiting': 'Esperando lecturas de los sensores… Los ordenadores de sobremesa no suelen tener sensores de movimiento.',
+
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.edit': 'Editar',
+  'common.delete': 'Eliminar',
+  'common.start': 'Iniciar',
+  'common.stop': 'Detener',
+  'common.pause': 'Pausar',
+  'common.reset': 'Reiniciar',
+  'common.restart': 'Repetir',
+  'common.retry': 'Reintentar',
+  'common.tryAgain': 'Volver a intentar',
+
+  'alarm.title': 'Despertador',
+  'alarm.defaultLabel': 'Alarma',
+  'alarm.nameField': 'Nombre de la alarma',
+  'alarm.timeField': 'Hora de la alarma',
+  'alarm.repeat': 'Repetir',
+  'alarm.repeatOn': 'Repetir los',
+  'alarm.sound': 'Sonido',
+  'alarm.snoozed': 'Pospuesta',
+  'alarm.enable': 'Activar {label}',
+  'alarm.disable': 'Desactivar {label}',
+  'alarm.delete': 'Eliminar {label}',
+  'alarm.empty': 'Todavía no hay alarmas.',
+  'alarm.add': 'Añadir alarma',
+  'alarm.ringing': 'Alarma sonando',
+  'alarm.dueAt': 'Alarma de las {time}',
+  'alarm.missedDueAt': 'Alarma perdida: debía sonar a las {time}',
+  'alarm.snooze': 'Posponer',
+  'alarm.snoozeFor': { one: 'Posponer {count} minuto', other: 'Posponer {count} minutos' },
+  'alarm.announceRinging': 'Alarma: {label}',
+  'alarm.announceMissed': 'Alarma perdida: {label}',
+
+  'repeat.once': 'Una vez',
+  'repeat.weekdays': 'Entre semana',
+  'repeat.custom': 'Personalizado',
+  'repeat.everyDay': 'Todos los días',
+
+  'stopwatch.title': 'Cronómetro',
+  'stopwatch.elapsed': 'Tiempo transcurrido',
+  'stopwatch.lap': 'Vuelta',
+  'stopwatch.lapNumber': 'Vuelta {number}',
+  'stopwatch.laps': 'Vueltas',
+  'stopwatch.lapCount': { one: '{count} vuelta', other: '{count} vueltas' },
+  'stopwatch.average': 'Media',
+  'stopwatch.fastest': '(la más rápida)',
+  'stopwatch.slowest': '(la más lenta)',
+  'stopwatch.history': 'Historial ({count})',
+  'stopwatch.hideHistory': 'Ocultar historial',
+  'stopwatch.noSessions': 'Aún no hay sesiones guardadas. Las sesiones se guardan al reiniciar.',
+  'stopwatch.exportCsv': 'Exportar CSV',
+  'stopwatch.exportJson': 'Exportar JSON',
+  'stopwatch.announceStarted': 'Cronómetro iniciado',
+  'stopwatch.announceStopped': 'Cronómetro detenido en {time}',
+  'stopwatch.announceLap': 'Vuelta {number}: {time}',
+
+  'timer.title': 'Temporizador',
+  'timer.defaultLabel': 'Temporizador',
+  'timer.labelField': 'Nombre del temporizador',
+  'timer.labelPlaceholder': 'Nombre (opcional)',
+  'timer.hours': 'Horas',
+  'timer.minutes': 'Minutos',
+  'timer.seconds': 'Segundos',
+  'timer.quickDurations': 'Duraciones rápidas',
+  'timer.minuteCount': { one: '{count} minuto', other: '{count} minutos' },
+  'timer.minutesShort': '{count} min',
+  'timer.savedPrograms': 'Programas guardados',
+  'timer.newProgram': 'Nuevo programa',
+  'timer.customDuration': 'Duración personalizada',
+  'timer.add': '+ Añadir temporizador',
+  'timer.remove': 'Quitar {label}',
+  'timer.remaining': 'Tiempo restante de {label}',
+  'timer.progress': 'Ronda {round}/{rounds} · Paso {step}/{steps}',
+  'timer.done': 'Listo',
+  'timer.endsAt': 'Termina a las {time}',
+  'timer.previousStep': 'Paso anterior',
+  'timer.skipStep': 'Saltar paso',
+  'timer.finished': 'Temporizador terminado',
+  'timer.timesUp': 'Se acabó el tiempo',
+  'timer.notificationTitle': '¡Se acabó el tiempo!',
+  'timer.notificationBody': 'Tu temporizador {label} ha terminado.',
+  'timer.roundOf': 'Ronda {round} de {rounds}',
+  'timer.announceStage': '{label}: {stage}, ronda {round} de {rounds}',
+  'timer.announceFinished': 'Temporizador {label} terminado',
+  'timer.announceFinalMinute': '{label}: queda un minuto',
+
+  'timerProgram.name': 'Nombre del programa',
+  'timerProgram.stageName': 'Nombre de la etapa {number}',
+  'timerProgram.stageType': 'Tipo de la etapa {number}',
+  'timerProgram.stageMinutes': 'Minutos de la etapa {number}',
+  'timerProgram.stageSeconds': 'Segundos de la etapa {number}',
+  'timerProgram.removeStage': 'Quitar la etapa {number}',
+  'timerProgram.work': 'Trabajo',
+  'timerProgram.rest': 'Descanso',
+  'timerProgram.minutesUnit': 'min',
+  'timerProgram.secondsUnit': 's',
+  'timerProgram.addStage': '+ Añadir etapa',
+  'timerProgram.rounds': 'Rondas',
+  'timerProgram.pomodoro': 'Pomodoro',
+  'timerProgram.focus': 'Concentración',
+  'timerProgram.break': 'Pausa',
+  'timerProgram.hiit': 'HIIT',
+  'timerProgram.on': 'Esfuerzo',
+  'timerProgram.off': 'Reposo',
+
+  'weather.title': 'El tiempo de hoy',
+  'weather.loading': 'Obteniendo datos del tiempo...',
+  'weather.updating': 'Actualizando…',
+  'weather.lastUpdated': 'Actualizado {age}',
+  'weather.justNow': 'ahora mismo',
+  'weather.offline': 'Estás sin conexión.',
+  'weather.showingLastKnown': 'Se muestra la última lectura conocida.',
+  'weather.humidity': 'Humedad:',
+  'weather.wind': 'Viento:',
+  'weather.sources': 'Fuentes:',
+  'weather.dataFrom': 'Datos del tiempo: {provider}',
+  'weather.currentLocation': 'Ubicación actual',
+  'weather.previousLocation': 'Ubicación anterior',
+  'weather.nextLocation': 'Ubicación siguiente',
+  'weather.useAsDefault': 'Usar como ubicación predeterminada',
+  'weather.defaultLocation': 'Ubicación predeterminada',
+  'weather.removeLocation': 'Quitar {name}',
+  'weather.addLocation': 'Añadir una ubicación',
+  'weather.briefingLoading': 'Preparando tu resumen…',
+  'weather.briefing': 'Resumen del tiempo',
+  'weather.briefingSources': 'Según',
+  'weather.alertFrom': 'Desde las {time}',
+  'weather.alertUntil': 'Hasta las {time}',
+  'weather.searchField': 'Buscar una ciudad',
+  'weather.search': 'Buscar',
+  'weather.searchFailed': 'No se pudieron buscar lugares. Comprueba tu conexión y vuelve a intentarlo.',
+  'weather.noMatches': 'No se encontraron lugares.',
+  'weather.error.unknown': 'Se ha producido un error desconocido.',
+  'weather.error.missingApiKey': 'El servicio del tiempo está desactivado. No se encontró la clave de API.',
+  'weather.error.network': 'No se pudo contactar con el servicio del tiempo. Comprueba tu conexión y vuelve a intentarlo.',
+  'weather.error.invalidData': 'El servicio del tiempo devolvió datos que no entendemos. Vuelve a intentarlo.',
+
+  'weatherAlert.frost': 'Heladas previstas',
+  'weatherAlert.frostDetail': '{temperature} a las {time}, por debajo de tu umbral de {threshold}.',
+  'weatherAlert.heat': 'Calor previsto',
+  'weatherAlert.heatDetail': '{temperature} a las {time}, por encima de tu umbral de {threshold}.',
+  'weatherAlert.rain': 'Probable lluvia',
+  'weatherAlert.rainDetail': '{chance} % de probabilidad de precipitación a las {time}.',
+  'weatherAlert.wind': 'Viento fuerte',
+  'weatherAlert.windDetail': 'El viento sopla a {speed}, por encima de tu umbral de {threshold}.',
+
+  'location.error.denied': 'Permiso denegado. Permite el acceso a la ubicación para este sitio en los ajustes del navegador y vuelve a intentarlo.',
+  'location.error.unavailable': 'La ubicación no está disponible. Comprueba tu conexión o inténtalo más tarde.',
+  'location.error.timeout': 'Se agotó el tiempo para obtener tu ubicación. Vuelve a intentarlo.',
+  'location.error.unknown': 'Se ha producido un error desconocido al obtener tu ubicación.',
+  'location.error.unsupported': 'Tu navegador no admite la geolocalización.',
+
+  'forecast.hourly': 'Previsión por horas',
+  'forecast.next24Hours': 'Próximas 24 horas',
+  'forecast.now': 'Ahora',
+  'forecast.daily': 'Previsión a 7 días',
+  'forecast.today': 'Hoy',
+
+  'condition.clear': 'Despejado',
+  'condition.mainlyClear': 'Mayormente despejado',
+  'condition.partlyCloudy': 'Parcialmente nublado',
+  'condition.overcast': 'Cubierto',
+  'condition.fog': 'Niebla',
+  'condition.drizzle': 'Llovizna',
+  'condition.rain': 'Lluvia',
+  'condition.snow': 'Nieve',
+  'condition.thunderstorm': 'Tormenta',
+  'condition.unknown': 'Desconocido',
+
+  'severeWeather.thunderstormWithHail': 'Tormenta con granizo',
+  'severeWeather.thunderstorm': 'Tormenta',
+  'severeWeather.freezingRain': 'Lluvia helada',
+  'severeWeather.heavyRain': 'Lluvia intensa',
+  'severeWeather.heavySnow': 'Nevada intensa',
+  'severeWeather.forecastHours': '{title} prevista en {count} de las próximas {hours} horas.',
+
+  'worldClock.title': 'Reloj mundial',
+  'worldClock.localTime': '{city} · Hora local',
+  'worldClock.empty': 'Añade una ciudad para comparar horas.',
+  'worldClock.dayAndDifference': '{day}, {difference}',
+  'worldClock.remove': 'Quitar {city}',
+  'worldClock.zoneField': 'Zona horaria que añadir',
+  'worldClock.chooseCity': 'Elige una ciudad…',
+  'worldClock.add': 'Añadir',
+
+  'timeZone.sameTime': 'Misma hora',
+  'timeZone.differenceHours': '{sign}{hours} h',
+  'timeZone.differenceHoursMinutes': '{sign}{hours} h {minutes} min',
+  'timeZone.today': 'Hoy',
+  'timeZone.tomorrow': 'Mañana',
+  'timeZone.yesterday': 'Ayer',
+
+  'compass.title': 'Brújula',
+  'compass.noHeading': 'Este dispositivo no indica dónde está el norte.',
+  'compass.hint': 'Rumbo magnético. Mantén el dispositivo horizontal y lejos de objetos metálicos.',
+  'compass.north': 'N',
+  'compass.northEast': 'NE',
+  'compass.east': 'E',
+  'compass.southEast': 'SE',
+  'compass.south': 'S',
+  'compass.southWest': 'SO',
+  'compass.west': 'O',
+  'compass.northWest': 'NO',
+
+  'level.title': 'Nivel',
+  'level.level': 'Nivelado',
+  'level.notLevel': 'Sin nivelar',
+  'level.hint': 'Apoya el dispositivo sobre la superficie para comprobarla.',
+
+  'sound.default': 'Predeterminado',
+  'sound.preview': 'Escuchar {label}',
+  'sound.stopPreview': 'Detener la prueba de sonido',
+  'sound.classicAlarm': 'Alarma clásica',
+  'sound.chime': 'Carillón',
+  'sound.bell': 'Campana',
+  'sound.softTone': 'Tono suave',
+
+  'command.field': 'Orden',
+  'command.placeholder': 'Prueba «temporizador de té de 10 minutos»',
+  'command.dictate': 'Dictar una orden',
+  'command.stopDictation': 'Detener el dictado',
+  'command.go': 'Ir',
+  'command.alarmSet': 'Alarma «{label}» programada a las {time} ({repeat})',
+  'command.timerStarted': '{label} iniciado para {duration}',
+  'command.programStarted': '{label} iniciado',
+  'command.stopwatchStarted': 'Cronómetro iniciado',
+  'command.stopwatchPaused': 'Cronómetro en pausa',
+  'command.lapRecorded': 'Vuelta registrada',
+  'command.stopwatchReset': 'Cronómetro reiniciado',
+  'command.error.unknown': 'Algo salió mal. Inténtalo de nuevo.',
+  'command.error.missingApiKey': 'Las órdenes están desactivadas. No se encontró la clave de API.',
+  'command.error.network': 'No se pudo contactar con el servicio de órdenes. Comprueba tu conexión e inténtalo de nuevo.',
+  'command.error.notUnderstood': 'Lo siento, solo puedo programar alarmas, iniciar temporizadores y controlar el cronómetro.',
+  'command.error.invalidArguments': 'A esa orden le faltaban detalles. Prueba a formularla de otra manera.',
+  'command.speechDenied': 'Se denegó el acceso al micrófono.',
+  'command.speechNotUnderstood': 'No se entendió la grabación.',
+
+  'settings.language': 'Idioma',
+  'settings.languageAuto': 'Predeterminado del navegador ({language})',
+  'settings.temperature': 'Temperatura',
+  'settings.windSpeed': 'Velocidad del viento',
+  'settings.clock': 'Reloj',
+  'settings.clock12h': '12 horas',
+  'settings.clock24h': '24 horas',
+  'settings.navigation': 'Navegación',
+  'settings.navigationOrientation': 'Según la orientación',
+  'settings.navigationManual': 'Manual',
+  'settings.orientationTools': 'Herramienta para cada orientación',
+  'settings.weatherBriefing': 'Resumen del tiempo',
+  'settings.weatherBriefingDescription': 'Pide a Gemini un breve resumen y sugerencias con cada nueva lectura.',
+  'settings.weatherBriefingNeedsKey': 'Necesita una clave de API de Gemini.',
+  'settings.weatherAlerts': 'Avisos meteorológicos',
+  'settings.backgroundCheck': 'Comprobar en segundo plano y avisarme',
+  'settings.backgroundCheckField': 'Avisos meteorológicos en segundo plano',
+  'settings.frostBelow': 'Heladas por debajo de',
+  'settings.heatAbove': 'Calor por encima de',
+  'settings.windAbove': 'Viento por encima de',
+  'settings.rainChanceFrom': 'Probabilidad de lluvia desde',
+  'settings.threshold': 'Umbral: {label}',
+  'settings.sounds': 'Sonidos',
+  'settings.alarmSound': 'Sonido de alarma',
+  'settings.timerSound': 'Sonido del temporizador',
+  'settings.volume': 'Volumen',
+  'settings.fadeIn': 'Subir el volumen de las alarmas en',
+  'settings.fadeOff': 'No',
+  'settings.fadeSeconds': '{count} s',
+  'settings.vibrate': 'Vibrar al sonar',
+  'settings.deleteSound': 'Eliminar {name}',
+  'settings.addingSound': 'Añadiendo sonido…',
+  'settings.addSound': '+ Añadir un sonido propio',
+  'settings.soundError.unknown': 'No se pudo añadir ese sonido. Inténtalo de nuevo.',
+  'settings.soundError.tooLarge': '«{name}» ocupa más de {size} MB. Elige un fragmento más corto.',
+  'settings.soundError.unsupported': '«{name}» no es un archivo de audio que este navegador pueda reproducir.',
+  'settings.soundError.storage': 'No se pudo guardar el sonido. Puede que el navegador se haya quedado sin espacio.',
+  'settings.backup': 'Copia de seguridad',
+  'settings.backupDescription': 'Guarda tus ajustes, alarmas, programas de temporizador, historial del cronómetro y lugares en un archivo, o restáuralos en otro dispositivo. Los sonidos propios no se incluyen.',
+  'settings.backupSection.settings': 'ajustes',
+  'settings.backupSection.alarms': 'alarmas',
+  'settings.backupSection.timerPrograms': 'programas de temporizador',
+  'settings.backupSection.stopwatchHistory': 'historial del cronómetro',
+  'settings.backupSection.locations': 'lugares guardados',
+  'settings.backupSection.worldClocks': 'relojes mundiales',
+  'settings.restoreBackup': 'Restaurar copia de seguridad',
+  'settings.restoreConfirm': '¿Sustituir tus {sections} por la copia de seguridad?',
+  'settings.restoreConfirmFrom': '¿Sustituir tus {sections} por la copia de seguridad del {date}?',
+  'settings.restore': 'Restaurar',
+  'settings.export': 'Exportar',
+  'settings.import': 'Importar…',
+  'settings.restored': 'Restaurado: {sections}.',
+  'settings.skippedEntries': { one: 'Se omitió {count} entrada dañada.', other: 'Se omitieron {count} entradas dañadas.' },
+  'settings.backupError.unknown': 'No se pudo leer la copia de seguridad. Inténtalo de nuevo.',
+  'settings.backupError.invalidFile': 'El archivo no es una copia de seguridad de Orientation Sense o está dañado.',
+  'settings.backupError.unsupportedVersion': 'Esta versión de la aplicación no puede leer la copia de seguridad. Actualiza la aplicación e inténtalo de nuevo.',
+};
+
+export default es;
@@ -0,0 +1,122 @@
+// Service worker: caches the app shell and bundled sounds for offline use and
+// relays notification action buttons (Snooze/Stop/Restart) back to the page.
+
+const CACHE_NAME = 'orientation-sense-v4';
+
+const APP_SHELL = [
+  '/',
+  '/index.html',
+  '/manifest.webmanifest',
+  '/icon.svg',
+  '/sounds/alarm.wav',
+  '/sounds/timer.wav',
+  '/sounds/stage-work.wav',
+  '/sounds/stage-rest.wav',
+];
+
+// Navigations to these paths return the app shell, which is cached as /index.html.
+const SHELL_PATHS = ['/', '/index.html'];
+
+// Written by `vite build` (build.manifest in vite.config.ts); lists the hashed scripts and styles of the build.
+const BUILD_MANIFEST_URL = '/build-manifest.json';
+
+// Third-party hosts the page loads its runtime (Tailwind, fonts, import map) from.
+const RUNTIME_CACHE_HOSTS = [
+  'cdn.tailwindcss.com',
+  'esm.sh',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+];
+
+// The hashed build assets, so the first offline launch does not depend on what was cached at runtime.
+// Fails softly: where the manifest cannot be fetched, only the app shell is precached and the assets
+// are cached as they are first loaded.
+const buildAssets = async () => {
+  try {
+    const response = await fetch(BUILD_MANIFEST_URL, { cache: 'no-cache' });
+    if (!response.ok) return [];
+    const manifest = await response.json();
+    const files = Object.values(manifest).flatMap((chunk) => [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])]);
+    return [...new Set(files)].map((file) => `/${file}`);
+  } catch {
+    return [];
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE_NAME), buildAssets()])
+      .then(([cache, assets]) => cache.addAll([...APP_SHELL, ...assets]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    // Only a successful load of the shell itself may replace it; error pages and other paths would
+    // otherwise overwrite the cached shell and the app would no longer start offline.
+    if (response.ok && SHELL_PATHS.includes(new URL(request.url).pathname)) {
+      cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch {
+    return (await cache.match('/index.html')) || Response.error();
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  if (url.origin === self.location.origin || RUNTIME_CACHE_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const { notification } = event;
+  notification.close();
+
+  const message = {
+    type: 'notification-action',
+    action: event.action || 'open',
+    tag: notification.tag,
+  };
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    windows.forEach((client) => client.postMessage(message));
+    if (windows.length > 0) {
+      await windows[0].focus();
+    } else {
+      await self.clients.openWindow('/');
+    }
+  })());
+});
@@ -0,0 +1,123 @@
+import { Alarm, Weekday } from '../types';
+import { repeatsOn } from './alarmStore';
+import { Clock, systemClock } from './clock';
+
+/** How late an alarm may ring before it is flagged as missed. */
+export const MISSED_ALARM_GRACE_MS = 60_000;
+/** Occurrences older than this (e.g. while the device was off overnight) are skipped, not rung. */
+export const MISSED_ALARM_WINDOW_MS = 12 * 60 * 60_000;
+/** Upper bound between checks, so a delayed or throttled timer is caught up quickly. */
+const MAX_CHECK_INTERVAL_MS = 30_000;
+
+export interface DueAlarm {
+  alarm: Alarm;
+  dueAt: number;
+  missed: boolean;
+}
+
+const parseTime = (time: string): [number, number] => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return [hours, minutes];
+};
+
+/**
+ * Returns the first wall-clock occurrence of the alarm strictly after `after`,
+ * evaluated in the current local timezone. Because the time is rebuilt from
+ * calendar fields on every call, a timezone change simply moves the next
+ * occurrence. In a spring-forward gap the `Date` constructor rolls the missing
+ * time forward, so the alarm rings at the first valid instant after it; in a
+ * fall-back overlap it resolves to the first of the two instants, and the
+ * `lastFiredAt` reference prevents ringing again an hour later.
+ */
+export const getNextOccurrence = (alarm: Alarm, after: number): number | null => {
+  const [hours, minutes] = parseTime(alarm.time);
+  const start = new Date(after);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const year = start.getFullYear();
+    const month = start.getMonth();
+    const date = start.getDate() + offset;
+    // Read the weekday at noon so a DST shift around midnight cannot change the day.
+    const weekday = new Date(year, month, date, 12).getDay() as Weekday;
+    if (!repeatsOn(alarm.repeat, weekday)) continue;
+
+    const candidate = new Date(year, month, date, hours, minutes, 0, 0).getTime();
+    if (candidate > after) return candidate;
+  }
+  return null;
+};
+
+/** When the alarm is next due, or null if it is disabled or has no upcoming occurrence. */
+export const getDueTime = (alarm: Alarm, now: number): number | null => {
+  if (!alarm.enabled) return null;
+  if (alarm.snoozedUntil !== null) return alarm.snoozedUntil;
+  const reference = Math.max(alarm.armedAt, alarm.lastFiredAt ?? 0, now - MISSED_ALARM_WINDOW_MS);
+  return getNextOccurrence(alarm, reference);
+};
+
+export const getDueAlarms = (alarms: Alarm[], now: number): DueAlarm[] =>
+  alarms.flatMap(alarm => {
+    const dueAt = getDueTime(alarm, now);
+    if (dueAt === null || dueAt > now) return [];
+    return [{ alarm, dueAt, missed: now - dueAt > MISSED_ALARM_GRACE_MS }];
+  });
+
+export interface AlarmSchedulerOptions {
+  getAlarms: () => Alarm[];
+  onDue: (due: DueAlarm[], now: number) => void;
+  clock?: Clock;
+}
+
+/**
+ * Sleeps until the earliest upcoming alarm (re-checking at least every
+ * {@link MAX_CHECK_INTERVAL_MS}) and re-evaluates immediately when the page
+ * becomes visible again, so alarms skipped by a throttled tab or a sleeping
+ * device still fire — flagged as missed — as soon as the app gets to run.
+ */
+export const createAlarmScheduler = ({ getAlarms, onDue, clock = systemClock }: AlarmSchedulerOptions) => {
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  const nextDueAt = (): number | null => {
+    const now = clock.now();
+    return getAlarms().reduce<number | null>((earliest, alarm) => {
+      const dueAt = getDueTime(alarm, now);
+      if (dueAt === null) return earliest;
+      return earliest === null ? dueAt : Math.min(earliest, dueAt);
+    }, null);
+  };
+
+  const schedule = () => {
+    if (timeoutId !== null) clearTimeout(timeoutId);
+    const dueAt = nextDueAt();
+    const delay = dueAt === null ? MAX_CHECK_INTERVAL_MS : Math.min(Math.max(dueAt - clock.now(), 0), MAX_CHECK_INTERVAL_MS);
+    timeoutId = setTimeout(check, delay);
+  };
+
+  const check = () => {
+    const now = clock.now();
+    const due = getDueAlarms(getAlarms(), now);
+    if (due.length > 0) onDue(due, now);
+    schedule();
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') check();
+  };
+
+  const start = () => {
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('focus', check);
+    window.addEventListener('pageshow', check);
+    check();
+  };
+
+  const stop = () => {
+    if (timeoutId !== null) clearTimeout(timeoutId);
+    timeoutId = null;
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('focus', check);
+    window.removeEventListener('pageshow', check);
+  };
+
+  return { start, stop, check, reschedule: schedule, nextDueAt };
+};
@@ -0,0 +1,24 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { Alarm } from '../types';
+import { useFakeTime } from '../test/fakeClock';
+import { alarmStore } from './alarmStore';
+import { getDueTime } from './alarmScheduler';
+
+const NOW = new Date(2025, 0, 6, 6, 0).getTime();
+
+useFakeTime();
+
+describe('alarmStore', () => {
+  it('arms alarms saved before they had an armed time, so they still ring', () => {
+    // Alarms ring on local time, so this test starts from a local time rather than `START`.
+    vi.setSystemTime(NOW);
+    // As saved by versions of the app from before alarms were armed and could be snoozed.
+    const legacy = { id: 'wake-up', label: 'Wake up', time: '07:00', repeat: { type: 'weekdays' }, enabled: true, lastFiredAt: null };
+    alarmStore.restore([legacy as unknown as Alarm]);
+
+    const [alarm] = alarmStore.get();
+    expect(alarm).toMatchObject({ armedAt: NOW, snoozedUntil: null, soundId: null });
+    expect(getDueTime(alarm, NOW)).toBe(new Date(2025, 0, 6, 7, 0).getTime());
+  });
+});
@@ -0,0 +1,88 @@
+import { Alarm, AlarmRepeat, Weekday } from '../types';
+import { SNOOZE_MINUTES } from '../constants';
+import { createPersistentStore, createSharedStore } from './persistentStore';
+
+export type AlarmFields = Pick<Alarm, 'label' | 'time' | 'repeat' | 'soundId'>;
+
+export const alarmStore = createPersistentStore<Alarm[]>(
+  'orientation-sense:alarms',
+  [],
+  // Alarms saved before sounds could be chosen ring with the default sound; those saved before they
+  // were armed count as armed now, since the scheduler measures from `armedAt`.
+  alarms => alarms.map(alarm => ({
+    ...alarm,
+    soundId: alarm.soundId ?? null,
+    armedAt: Number.isFinite(alarm.armedAt) ? alarm.armedAt : Date.now(),
+    snoozedUntil: alarm.snoozedUntil ?? null,
+  }))
+);
+
+export interface RingingAlarmEntry {
+  id: string;
+  dueAt: number;
+  missed: boolean;
+}
+
+// Shared between tabs but not persisted, so stopping an alarm in one tab silences it in all of them.
+export const ringingAlarmStore = createSharedStore<RingingAlarmEntry[]>('orientation-sense:ringing-alarms', []);
+
+const updateAlarm = (id: string, update: (alarm: Alarm) => Alarm) => {
+  alarmStore.set(alarms => alarms.map(alarm => (alarm.id === id ? update(alarm) : alarm)));
+};
+
+export const addAlarm = (fields: AlarmFields) => {
+  const alarm: Alarm = {
+    id: crypto.randomUUID(),
+    enabled: true,
+    armedAt: Date.now(),
+    snoozedUntil: null,
+    lastFiredAt: null,
+    ...fields,
+  };
+  alarmStore.set(alarms => [...alarms, alarm]);
+};
+
+export const editAlarm = (id: string, fields: AlarmFields) => {
+  updateAlarm(id, alarm => ({ ...alarm, ...fields, enabled: true, armedAt: Date.now(), snoozedUntil: null }));
+};
+
+export const removeAlarm = (id: string) => {
+  alarmStore.set(alarms => alarms.filter(alarm => alarm.id !== id));
+};
+
+export const setAlarmEnabled = (id: string, enabled: boolean) => {
+  updateAlarm(id, alarm => ({
+    ...alarm,
+    enabled,
+    armedAt: enabled ? Date.now() : alarm.armedAt,
+    snoozedUntil: null,
+  }));
+};
+
+export const markAlarmFired = (id: string, now = Date.now()) => {
+  // One-shot alarms switch themselves off as soon as they ring rather than when dismissed: the ringing
+  // state is not persisted, so an alarm left ringing through a reload would otherwise ring again tomorrow.
+  updateAlarm(id, alarm => ({
+    ...alarm,
+    lastFiredAt: now,
+    snoozedUntil: null,
+    enabled: alarm.repeat.type === 'once' ? false : alarm.enabled,
+  }));
+};
+
+export const snoozeAlarm = (id: string, now = Date.now()) => {
+  // Re-arms a one-shot alarm that switched itself off when it rang.
+  updateAlarm(id, alarm => ({ ...alarm, enabled: true, snoozedUntil: now + SNOOZE_MINUTES * 60_000 }));
+};
+
+export const dismissAlarm = (id: string) => {
+  updateAlarm(id, alarm => ({ ...alarm, snoozedUntil: null }));
+};
+
+export const repeatsOn = (repeat: AlarmRepeat, day: Weekday): boolean => {
+  switch (repeat.type) {
+    case 'once': return true;
+    case 'weekdays': return day >= 1 && day <= 5;
+    case 'days': return repeat.days.includes(day);
+  }
+};
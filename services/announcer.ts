@@ -0,0 +1,26 @@
+export type AnnouncementPriority = 'polite' | 'assertive';
+
+export interface Announcement {
+  message: string;
+  priority: AnnouncementPriority;
+}
+
+type AnnouncementListener = (announcement: Announcement) => void;
+
+const listeners = new Set<AnnouncementListener>();
+
+/**
+ * Reads a message out to screen reader users through the live regions rendered
+ * by `LiveAnnouncer`. Use "assertive" only for things that need acting on now,
+ * such as a ringing alarm.
+ */
+export const announce = (message: string, priority: AnnouncementPriority = 'polite') => {
+  listeners.forEach(listener => listener({ message, priority }));
+};
+
+export const onAnnouncement = (listener: AnnouncementListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,122 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { BACKUP_VERSION, parseBackup, restoreBackup } from './backup';
+import { BackupError } from './errors';
+import { settingsStore, updateSettings, updateSoundSettings, DEFAULT_SETTINGS } from './settingsStore';
+import { alarmStore } from './alarmStore';
+import { getDueTime } from './alarmScheduler';
+
+const backupOf = (data: Record<string, unknown>) =>
+  JSON.stringify({ app: 'orientation-sense', version: BACKUP_VERSION, exportedAt: '2025-01-06T09:00:00.000Z', data });
+
+const ALARM = {
+  id: 'wake-up',
+  label: 'Wake up',
+  time: '07:30',
+  repeat: { type: 'weekdays' },
+  enabled: true,
+  armedAt: 0,
+  snoozedUntil: null,
+  lastFiredAt: null,
+  soundId: null,
+};
+
+describe('parseBackup', () => {
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('not json')).toThrow(BackupError);
+    expect(() => parseBackup(JSON.stringify({ app: 'something-else', version: 1, data: {} }))).toThrow(BackupError);
+    expect(() => parseBackup(backupOf({}).replace(`"version":${BACKUP_VERSION}`, '"version":99'))).toThrow(/not supported/);
+  });
+
+  it('rejects a section that is not the right shape at all', () => {
+    expect(() => parseBackup(backupOf({ alarms: { id: 'wake-up' } }))).toThrow(/alarms could not be read/);
+    expect(() => parseBackup(backupOf({ locations: [] }))).toThrow(/locations could not be read/);
+  });
+
+  it('leaves out malformed entries and counts them', () => {
+    const { data, skippedEntries } = parseBackup(backupOf({
+      alarms: [
+        ALARM,
+        { ...ALARM, id: 'no-time', time: undefined },
+        { ...ALARM, id: 'bad-time', time: '7.30am' },
+        { ...ALARM, id: 'bad-repeat', repeat: { type: 'days', days: [9] } },
+        { ...ALARM, id: 'bad-armed', armedAt: 'yesterday' },
+        { ...ALARM, id: 'bad-snooze', snoozedUntil: '07:40' },
+      ],
+      timerPrograms: [
+        { id: 'ok', name: 'Tea', stages: [{ label: 'Steep', kind: 'work', durationSeconds: 180 }], rounds: 1 },
+        { id: 'no-stages', name: 'Empty', stages: [], rounds: 1 },
+        { id: 'bad-stage', name: 'Bad', stages: [{ label: 'Steep', kind: 'nap', durationSeconds: 180 }], rounds: 1 },
+        { id: 'no-rounds', name: 'Zero', stages: [{ label: 'Steep', kind: 'work', durationSeconds: 180 }], rounds: 0 },
+      ],
+      stopwatchHistory: [
+        { id: 'run', startedAt: 1, endedAt: 2, totalMs: 1, laps: [] },
+        { id: 'bad', startedAt: '1', endedAt: 2, totalMs: 1, laps: [] },
+      ],
+      locations: {
+        locations: [
+          { id: 'home', name: 'Home', region: '', coords: { lat: 1, lon: 2 } },
+          { id: 'nowhere', name: 'Nowhere', region: '' },
+        ],
+        defaultId: 'nowhere',
+      },
+      worldClocks: ['Asia/Tokyo', 'Mars/Olympus_Mons', 42],
+    }));
+
+    expect(data.alarms?.map(alarm => alarm.id)).toEqual(['wake-up']);
+    expect(data.timerPrograms?.map(program => program.id)).toEqual(['ok']);
+    expect(data.stopwatchHistory?.map(session => session.id)).toEqual(['run']);
+    expect(data.locations).toEqual({ locations: [expect.objectContaining({ id: 'home' })], defaultId: 'home' });
+    expect(data.worldClocks).toEqual(['Asia/Tokyo']);
+    expect(skippedEntries).toBe(5 + 3 + 1 + 1 + 2);
+  });
+});
+
+describe('restoreBackup', () => {
+  it('restores alarms the scheduler can evaluate', () => {
+    const { data } = parseBackup(backupOf({ alarms: [ALARM, { ...ALARM, id: 'broken', time: null }] }));
+    restoreBackup(data, Date.UTC(2025, 0, 6, 9, 0));
+
+    expect(alarmStore.get().map(alarm => alarm.id)).toEqual(['wake-up']);
+    expect(() => alarmStore.get().forEach(alarm => getDueTime(alarm, Date.now()))).not.toThrow();
+  });
+
+  it('falls back to the default tool for unknown orientation tools and to the browser for unknown languages', () => {
+    updateSettings({ locale: 'es' });
+    const { data } = parseBackup(backupOf({
+      settings: {
+        ...DEFAULT_SETTINGS,
+        orientationTools: { ...DEFAULT_SETTINGS.orientationTools, 'portrait-primary': 'toaster', 'landscape-primary': 'compass' },
+        locale: 'xx',
+      },
+    }));
+    restoreBackup(data);
+
+    const { orientationTools, locale } = settingsStore.get();
+    expect(orientationTools['portrait-primary']).toBe(DEFAULT_SETTINGS.orientationTools['portrait-primary']);
+    expect(orientationTools['landscape-primary']).toBe('compass');
+    expect(locale).toBeNull();
+  });
+
+  it('puts back the defaults of settings with values the app cannot use', () => {
+    updateSoundSettings({ volume: 0.4 });
+    const { data } = parseBackup(backupOf({
+      settings: {
+        ...DEFAULT_SETTINGS,
+        temperatureUnit: 'kelvin',
+        clockFormat: '12h',
+        weatherAlerts: 'frost',
+        sounds: { ...DEFAULT_SETTINGS.sounds, volume: 'loud', rampSeconds: null, vibrate: false },
+        weatherBriefing: 'yes',
+      },
+    }));
+    restoreBackup(data);
+
+    const settings = settingsStore.get();
+    expect(settings.temperatureUnit).toBe(DEFAULT_SETTINGS.temperatureUnit);
+    expect(settings.clockFormat).toBe('12h');
+    expect(settings.weatherAlerts).toEqual(DEFAULT_SETTINGS.weatherAlerts);
+    expect(settings.sounds).toMatchObject({ volume: DEFAULT_SETTINGS.sounds.volume, rampSeconds: DEFAULT_SETTINGS.sounds.rampSeconds, vibrate: false });
+    expect(settings.weatherBriefing).toBe(false);
+  });
+});
@@ -0,0 +1,295 @@
+import { Alarm, AlarmRepeat, SavedLocation, Settings, SoundSettings, StopwatchSession, TimerProgram, TimerStage, WeatherAlertSettings } from '../types';
+import { BackupError } from './errors';
+import { settingsStore, DEFAULT_SETTINGS } from './settingsStore';
+import { alarmStore } from './alarmStore';
+import { timerProgramStore } from './timerProgramStore';
+import { stopwatchHistoryStore } from './stopwatchStore';
+import { LocationState, locationStore } from './locationStore';
+import { worldClockStore } from './worldClockStore';
+import { customSoundStore } from './soundLibrary';
+import { isLocaleId } from './i18n';
+import { downloadFile } from '../utils/sessionExport';
+
+const BACKUP_APP = 'orientation-sense';
+
+/** Bump whenever `BackupData` changes shape, and add a migration from the previous version. */
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  settings: Settings;
+  alarms: Alarm[];
+  timerPrograms: TimerProgram[];
+  stopwatchHistory: StopwatchSession[];
+  locations: LocationState;
+  worldClocks: string[];
+}
+
+export interface BackupFile {
+  app: typeof BACKUP_APP;
+  version: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export type BackupSection = keyof BackupData;
+
+export interface ParsedBackup {
+  exportedAt: string | null;
+  data: Partial<BackupData>;
+  skippedEntries: number; // alarms, programs, sessions, places or clocks that were malformed and left out
+}
+
+type RawBackupData = Record<string, unknown>;
+
+/**
+ * Upgrades for backups written by older versions of the app, keyed by the
+ * version they upgrade from: `MIGRATIONS[1]` turns version 1 data into
+ * version 2. They run in sequence, so any older backup can be restored.
+ */
+const MIGRATIONS: Record<number, (data: RawBackupData) => RawBackupData> = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isInRange = (min: number, max = Infinity) => (value: unknown): value is number =>
+  isFiniteNumber(value) && value >= min && value <= max;
+
+const isOneOf = <T extends string>(...options: T[]) => (value: unknown): value is T => options.includes(value as T);
+
+const isNullable = <T>(check: (value: unknown) => value is T) => (value: unknown): value is T | null =>
+  value === null || check(value);
+
+// --- Entry checks: a restored entry must not be able to crash the views or the alarm scheduler ---
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isAlarmRepeat = (value: unknown): value is AlarmRepeat => {
+  if (!isRecord(value)) return false;
+  if (value.type === 'once' || value.type === 'weekdays') return true;
+  return value.type === 'days' && Array.isArray(value.days) && value.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+};
+
+const isAlarm = (value: unknown): value is Alarm =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.label) &&
+  isString(value.time) && TIME_OF_DAY_PATTERN.test(value.time) &&
+  isAlarmRepeat(value.repeat) &&
+  isBoolean(value.enabled) &&
+  isFiniteNumber(value.armedAt) &&
+  isNullable(isFiniteNumber)(value.snoozedUntil ?? null) &&
+  isNullable(isFiniteNumber)(value.lastFiredAt ?? null) &&
+  isNullable(isString)(value.soundId ?? null);
+
+const isTimerStage = (value: unknown): value is TimerStage =>
+  isRecord(value) &&
+  isString(value.label) &&
+  (value.kind === 'work' || value.kind === 'rest') &&
+  isFiniteNumber(value.durationSeconds) && value.durationSeconds > 0;
+
+const isTimerProgram = (value: unknown): value is TimerProgram =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  Array.isArray(value.stages) && value.stages.length > 0 && value.stages.every(isTimerStage) &&
+  Number.isInteger(value.rounds) && (value.rounds as number) >= 1;
+
+const isStopwatchSession = (value: unknown): value is StopwatchSession =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isFiniteNumber(value.startedAt) &&
+  isFiniteNumber(value.endedAt) &&
+  isFiniteNumber(value.totalMs) && value.totalMs >= 0 &&
+  Array.isArray(value.laps) && value.laps.every(isFiniteNumber);
+
+const isSavedLocation = (value: unknown): value is SavedLocation =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.region) &&
+  isRecord(value.coords) && isFiniteNumber(value.coords.lat) && isFiniteNumber(value.coords.lon);
+
+const isTimeZone = (value: unknown): value is string => {
+  if (!isString(value)) return false;
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// --- Setting checks: the store fills in missing settings from its defaults, but never checks their values ---
+
+type FieldChecks<T> = { [Key in keyof T]-?: (value: unknown) => boolean };
+
+// Nested objects only need to be records here; `readSettings` checks their fields on their own.
+const SETTING_CHECKS: FieldChecks<Settings> = {
+  temperatureUnit: isOneOf('celsius', 'fahrenheit'),
+  windSpeedUnit: isOneOf('kmh', 'mph', 'ms'),
+  clockFormat: isOneOf('12h', '24h'),
+  navigationMode: isOneOf('orientation', 'manual'),
+  orientationTools: isRecord, // unknown tools are replaced by the store's normalize
+  weatherAlerts: isRecord,
+  sounds: isRecord,
+  locale: isNullable(isLocaleId),
+  weatherBriefing: isBoolean,
+};
+
+const WEATHER_ALERT_SETTING_CHECKS: FieldChecks<WeatherAlertSettings> = {
+  backgroundCheck: isBoolean,
+  frostBelowC: isNullable(isFiniteNumber),
+  heatAboveC: isNullable(isFiniteNumber),
+  windAboveKmh: isNullable(isInRange(0)),
+  rainChanceAbove: isNullable(isInRange(0, 100)),
+};
+
+const SOUND_SETTING_CHECKS: FieldChecks<SoundSettings> = {
+  alarmSoundId: isString,
+  timerSoundId: isString,
+  volume: isInRange(0, 1),
+  rampSeconds: isInRange(0),
+  vibrate: isBoolean,
+};
+
+/** Keeps the fields of `value` that pass their check, leaving out the rest. */
+const pickValidFields = <T>(value: Record<string, unknown>, checks: FieldChecks<T>): Partial<T> =>
+  Object.fromEntries(
+    Object.entries<(value: unknown) => boolean>(checks)
+      .filter(([key, check]) => key in value && check(value[key]))
+      .map(([key]) => [key, value[key]])
+  ) as Partial<T>;
+
+// --- Sections: each reader returns the section with malformed entries left out, or null if it is unreadable ---
+
+interface SectionResult<T> {
+  value: T;
+  skipped: number;
+}
+
+const readEntries = <T>(value: unknown, isEntry: (entry: unknown) => entry is T): SectionResult<T[]> | null => {
+  if (!Array.isArray(value)) return null;
+  const entries = value.filter(isEntry);
+  return { value: entries, skipped: value.length - entries.length };
+};
+
+// Settings that fail their check are dropped, so the store's normalize falls back to their defaults.
+const readSettings = (value: unknown): SectionResult<Settings> | null => {
+  if (!isRecord(value)) return null;
+  const settings = pickValidFields(value, SETTING_CHECKS);
+  return {
+    value: {
+      ...settings,
+      ...(isRecord(value.weatherAlerts) ? { weatherAlerts: pickValidFields(value.weatherAlerts, WEATHER_ALERT_SETTING_CHECKS) } : {}),
+      ...(isRecord(value.sounds) ? { sounds: pickValidFields(value.sounds, SOUND_SETTING_CHECKS) } : {}),
+    } as Settings,
+    skipped: 0,
+  };
+};
+
+const readLocations = (value: unknown): SectionResult<LocationState> | null => {
+  if (!isRecord(value)) return null;
+  const entries = readEntries(value.locations, isSavedLocation);
+  if (!entries) return null;
+  const defaultId = entries.value.some(location => location.id === value.defaultId) ? value.defaultId as string : entries.value[0]?.id ?? null;
+  return { value: { locations: entries.value, defaultId }, skipped: entries.skipped };
+};
+
+const SECTION_READERS: { [Section in BackupSection]: (value: unknown) => SectionResult<BackupData[Section]> | null } = {
+  settings: readSettings,
+  alarms: value => readEntries(value, isAlarm),
+  timerPrograms: value => readEntries(value, isTimerProgram),
+  stopwatchHistory: value => readEntries(value, isStopwatchSession),
+  locations: readLocations,
+  worldClocks: value => readEntries(value, isTimeZone),
+};
+
+// Running timers, the stopwatch in progress and caches are left out: they only make sense on the device that
+// made them. Custom sounds are too, as their audio lives in IndexedDB.
+export const createBackup = (now = new Date()): BackupFile => ({
+  app: BACKUP_APP,
+  version: BACKUP_VERSION,
+  exportedAt: now.toISOString(),
+  data: {
+    settings: settingsStore.get(),
+    alarms: alarmStore.get(),
+    timerPrograms: timerProgramStore.get(),
+    stopwatchHistory: stopwatchHistoryStore.get(),
+    locations: locationStore.get(),
+    worldClocks: worldClockStore.get(),
+  },
+});
+
+export const exportBackup = (now = new Date()) => {
+  const backup = createBackup(now);
+  downloadFile(`orientation-sense-backup-${backup.exportedAt.slice(0, 10)}.json`, JSON.stringify(backup, null, 2), 'application/json');
+};
+
+/** Checks a backup file's envelope and brings its data up to the current version. */
+export const parseBackup = (text: string): ParsedBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new BackupError('invalid-file', 'The file is not valid JSON.', { cause: error });
+  }
+  if (!isRecord(parsed) || parsed.app !== BACKUP_APP || !Number.isInteger(parsed.version) || !isRecord(parsed.data)) {
+    throw new BackupError('invalid-file', 'The file is not an Orientation Sense backup.');
+  }
+
+  const version = parsed.version as number;
+  if (version > BACKUP_VERSION || version < 1) {
+    throw new BackupError('unsupported-version', `Backup version ${version} is not supported; this app reads versions up to ${BACKUP_VERSION}.`);
+  }
+
+  let data = parsed.data;
+  for (let from = version; from < BACKUP_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) throw new BackupError('unsupported-version', `No migration from backup version ${from}.`);
+    data = migrate(data);
+  }
+
+  const sections = (Object.keys(SECTION_READERS) as BackupSection[]).filter(section => section in data);
+  const results = sections.map(section => [section, SECTION_READERS[section](data[section])] as const);
+  const invalid = results.filter(([, result]) => result === null).map(([section]) => section);
+  if (invalid.length > 0) {
+    throw new BackupError('invalid-file', `The backup's ${invalid.join(', ')} could not be read.`);
+  }
+  return {
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : null,
+    data: Object.fromEntries(results.map(([section, result]) => [section, result!.value])) as Partial<BackupData>,
+    skippedEntries: results.reduce((total, [, result]) => total + result!.skipped, 0),
+  };
+};
+
+/** Custom sounds are not part of a backup, so settings pointing at one missing here go back to the default. */
+const withAvailableSounds = (settings: Settings): Settings => {
+  const customIds = customSoundStore.get().map(sound => sound.id);
+  const available = (id: string) => !id.startsWith('custom:') || customIds.includes(id);
+  const sounds = { ...DEFAULT_SETTINGS.sounds, ...settings.sounds };
+  return {
+    ...settings,
+    sounds: {
+      ...sounds,
+      alarmSoundId: available(sounds.alarmSoundId) ? sounds.alarmSoundId : DEFAULT_SETTINGS.sounds.alarmSoundId,
+      timerSoundId: available(sounds.timerSoundId) ? sounds.timerSoundId : DEFAULT_SETTINGS.sounds.timerSoundId,
+    },
+  };
+};
+
+/** Replaces each section present in `data`; sections missing from the backup are left as they are. */
+export const restoreBackup = (data: Partial<BackupData>, now = Date.now()) => {
+  if (data.settings) settingsStore.restore(withAvailableSounds(data.settings));
+  // Re-armed from now, so alarms due while the backup sat in a file do not all ring as missed.
+  if (data.alarms) alarmStore.restore(data.alarms.map(alarm => ({ ...alarm, armedAt: now, snoozedUntil: null })));
+  if (data.timerPrograms) timerProgramStore.restore(data.timerPrograms);
+  if (data.stopwatchHistory) stopwatchHistoryStore.restore(data.stopwatchHistory);
+  if (data.locations) locationStore.restore(data.locations);
+  if (data.worldClocks) worldClockStore.restore(data.worldClocks);
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { START, fakeClock, lateScheduler, useFakeTime } from '../test/fakeClock';
+import { createTicker } from './clock';
+
+useFakeTime();
+
+describe('createTicker', () => {
+  it('ticks once per interval boundary, on the boundary', () => {
+    const ticks: number[] = [];
+    const ticker = createTicker({ intervalMs: 1000, onTick: now => ticks.push(now), clock: fakeClock, scheduler: lateScheduler(0) });
+
+    ticker.start();
+    vi.advanceTimersByTime(3000);
+    ticker.stop();
+
+    expect(ticks).toEqual([START, START + 1000, START + 2000, START + 3000]);
+  });
+
+  it('does not accumulate drift when every frame arrives late', () => {
+    const ticks: number[] = [];
+    const ticker = createTicker({ intervalMs: 1000, onTick: now => ticks.push(now), clock: fakeClock, scheduler: lateScheduler(37) });
+
+    ticker.start();
+    vi.advanceTimersByTime(60 * 60_000 + 37);
+    ticker.stop();
+
+    // One tick per second for the whole hour, each 37 ms into its second rather than creeping later.
+    expect(ticks).toHaveLength(3601);
+    expect(ticks.slice(1).every((now, index) => now - START === (index + 1) * 1000 + 37)).toBe(true);
+  });
+
+  it('catches up with a single tick after a background-tab gap', () => {
+    const ticks: number[] = [];
+    // Background tabs throttle timers to about once a minute.
+    const ticker = createTicker({ intervalMs: 1000, onTick: now => ticks.push(now), clock: fakeClock, scheduler: lateScheduler(59_000) });
+
+    ticker.start();
+    vi.advanceTimersByTime(60_000);
+    ticker.stop();
+
+    expect(ticks).toEqual([START, START + 60_000]);
+  });
+
+  it('stops ticking once stopped', () => {
+    const onTick = vi.fn();
+    const ticker = createTicker({ intervalMs: 1000, onTick, clock: fakeClock, scheduler: lateScheduler(0) });
+
+    ticker.start();
+    ticker.stop();
+    vi.advanceTimersByTime(5000);
+
+    expect(onTick).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,76 @@
+export interface Clock {
+  now: () => number;
+}
+
+/**
+ * Wall-clock time in ms. Running timers and stopwatches persist absolute
+ * timestamps and every reading is derived from them rather than by counting
+ * ticks, so a late, throttled or skipped tick never makes them drift.
+ */
+export const systemClock: Clock = { now: () => Date.now() };
+
+export interface FrameScheduler {
+  /** Calls `callback` on the next frame, or after about `delayMs` when frames are unavailable. Returns a cancel function. */
+  request: (callback: () => void, delayMs: number) => () => void;
+}
+
+// Animation frames are paused in background tabs, where timeouts take over.
+export const browserFrameScheduler: FrameScheduler = {
+  request: (callback, delayMs) => {
+    if (typeof requestAnimationFrame === 'function' && !document.hidden) {
+      const frameId = requestAnimationFrame(callback);
+      return () => cancelAnimationFrame(frameId);
+    }
+    const timeoutId = setTimeout(callback, delayMs);
+    return () => clearTimeout(timeoutId);
+  },
+};
+
+interface TickerOptions {
+  intervalMs: number;
+  onTick: (now: number) => void;
+  clock?: Clock;
+  scheduler?: FrameScheduler;
+}
+
+/**
+ * Calls `onTick` once per `intervalMs` boundary of the clock (every frame for
+ * intervals shorter than a frame). Ticks line up with wall-clock boundaries,
+ * so a one-second ticker changes exactly when the displayed second does.
+ */
+export const createTicker = ({ intervalMs, onTick, clock = systemClock, scheduler = browserFrameScheduler }: TickerOptions) => {
+  let cancelFrame: (() => void) | null = null;
+  let lastPeriod: number | null = null;
+
+  const frame = () => {
+    const now = clock.now();
+    const period = Math.floor(now / intervalMs);
+    if (period !== lastPeriod) {
+      lastPeriod = period;
+      onTick(now);
+    }
+    cancelFrame = scheduler.request(frame, intervalMs - (now % intervalMs));
+  };
+
+  // A frame requested while visible never arrives once the tab is hidden, so re-request on every change.
+  const handleVisibilityChange = () => {
+    if (cancelFrame === null) return;
+    cancelFrame();
+    frame();
+  };
+
+  const start = () => {
+    if (cancelFrame !== null) return;
+    if (typeof document !== 'undefined') document.addEventListener('visibilitychange', handleVisibilityChange);
+    frame();
+  };
+
+  const stop = () => {
+    cancelFrame?.();
+    cancelFrame = null;
+    lastPeriod = null;
+    if (typeof document !== 'undefined') document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+
+  return { start, stop };
+};
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { FunctionCall } from '@google/genai';
+import { CommandModelClient, interpretCommand, runCommand } from './commandService';
+import { CommandNotUnderstoodError, InvalidCommandArgumentsError } from './errors';
+import { alarmStore } from './alarmStore';
+import { timerStore } from './timerStore';
+
+const stubClient = (calls: FunctionCall[], text = ''): CommandModelClient => ({
+  callFunctions: vi.fn(async () => ({ calls, text })),
+});
+
+describe('interpretCommand', () => {
+  it('turns a single function call into a command', async () => {
+    const client = stubClient([{ name: 'startTimer', args: { durationSeconds: 300, label: 'Tea' } }]);
+
+    await expect(interpretCommand('five minute tea timer', { client, programs: [] })).resolves.toEqual([
+      { name: 'startTimer', args: { durationSeconds: 300, label: 'Tea' } },
+    ]);
+    expect(client.callFunctions).toHaveBeenCalledWith(expect.stringContaining('five minute tea timer'), expect.any(Array));
+  });
+
+  it('keeps several calls in the order the model made them', async () => {
+    const client = stubClient([
+      { name: 'resetStopwatch', args: {} },
+      { name: 'startStopwatch', args: {} },
+    ]);
+
+    const commands = await interpretCommand('restart the stopwatch', { client, programs: [] });
+    expect(commands.map(command => command.name)).toEqual(['resetStopwatch', 'startStopwatch']);
+  });
+
+  it('runs none of the calls when one has a bad argument', async () => {
+    const client = stubClient([
+      { name: 'setAlarm', args: { time: '07:00', repeat: 'once' } },
+      { name: 'startTimer', args: { durationSeconds: -5 } },
+    ]);
+
+    await expect(runCommand('alarm at 7 and a timer', { client, programs: [] })).rejects.toThrow(InvalidCommandArgumentsError);
+    expect(alarmStore.get()).toEqual([]);
+    expect(timerStore.get()).toEqual([]);
+  });
+
+  it('passes on the reply when the model calls no function', async () => {
+    const client = stubClient([], 'I can only help with alarms, timers and the stopwatch.');
+
+    const error = await interpretCommand('order a pizza', { client, programs: [] }).catch(caught => caught);
+    expect(error).toBeInstanceOf(CommandNotUnderstoodError);
+    expect(error.responseText).toBe('I can only help with alarms, timers and the stopwatch.');
+  });
+});
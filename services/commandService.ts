@@ -0,0 +1,72 @@
+import { FunctionCall, FunctionCallingConfigMode, FunctionDeclaration } from "@google/genai";
+import { TimerProgram } from '../types';
+import { CommandError, CommandNotUnderstoodError } from './errors';
+import { ai, GEMINI_MODEL, hasGeminiApiKey } from './geminiClient';
+import { AppCommand, CommandOutcome, executeCommand, getCommandDeclarations, parseCommand } from './commands';
+import { timerProgramStore } from './timerProgramStore';
+
+export interface FunctionCallResult {
+  calls: FunctionCall[];
+  text: string;
+}
+
+/** The one model capability the command bar needs, so it can be stubbed out. */
+export interface CommandModelClient {
+  callFunctions: (prompt: string, declarations: FunctionDeclaration[]) => Promise<FunctionCallResult>;
+}
+
+export const geminiCommandClient: CommandModelClient = {
+  callFunctions: async (prompt, declarations) => {
+    if (!hasGeminiApiKey()) {
+      throw new CommandError('missing-api-key', 'Commands are disabled. API key not found.');
+    }
+    try {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: prompt,
+        config: {
+          tools: [{ functionDeclarations: declarations }],
+          toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.AUTO } },
+        },
+      });
+      return { calls: response.functionCalls ?? [], text: response.text ?? '' };
+    } catch (error) {
+      console.error("Error interpreting command:", error);
+      throw new CommandError('network', 'Could not reach the command service. Please try again.', { cause: error });
+    }
+  },
+};
+
+const buildPrompt = (text: string, now: Date) => `
+  You control a clock app with alarms, timers and a stopwatch. Carry out the user's request by calling
+  one or more of the available functions. If the request does not match any function, reply briefly
+  without calling one.
+
+  The user's local date and time is ${now.toString()}.
+
+  Request: ${text}
+`;
+
+interface CommandOptions {
+  client?: CommandModelClient;
+  programs?: TimerProgram[];
+  now?: Date;
+}
+
+/** Asks the model which app actions a natural-language request maps to. */
+export const interpretCommand = async (
+  text: string,
+  { client = geminiCommandClient, programs = timerProgramStore.get(), now = new Date() }: CommandOptions = {}
+): Promise<AppCommand[]> => {
+  const { calls, text: reply } = await client.callFunctions(buildPrompt(text, now), getCommandDeclarations(programs));
+  if (calls.length === 0) {
+    throw new CommandNotUnderstoodError(reply);
+  }
+  // Validate every call before running any, so a bad argument cannot leave a request half done.
+  return calls.map(call => parseCommand(call, programs));
+};
+
+export const runCommand = async (text: string, options: CommandOptions = {}): Promise<CommandOutcome[]> => {
+  const commands = await interpretCommand(text, options);
+  return commands.map(command => executeCommand(command, options.now?.getTime()));
+};
@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { TimerProgram } from '../types';
+import { InvalidCommandArgumentsError } from './errors';
+import { getCommandDeclarations, parseCommand } from './commands';
+
+const TABATA: TimerProgram = {
+  id: 'tabata',
+  name: 'Tabata',
+  stages: [{ label: 'Work', kind: 'work', durationSeconds: 20 }, { label: 'Rest', kind: 'rest', durationSeconds: 10 }],
+  rounds: 8,
+};
+
+const issuesOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof InvalidCommandArgumentsError) return error.issues;
+    throw error;
+  }
+  throw new Error('Expected the arguments to be rejected.');
+};
+
+describe('getCommandDeclarations', () => {
+  it('offers saved programs by name, and leaves the program command out while there are none', () => {
+    const names = (programs: TimerProgram[]) => getCommandDeclarations(programs).map(declaration => declaration.name);
+    expect(names([])).not.toContain('startTimerProgram');
+
+    const program = getCommandDeclarations([TABATA]).find(declaration => declaration.name === 'startTimerProgram');
+    expect(program?.parameters?.properties?.program.enum).toEqual(['Tabata']);
+  });
+});
+
+describe('parseCommand', () => {
+  it('pads alarm times and expands daily repeats', () => {
+    const command = parseCommand({ name: 'setAlarm', args: { time: '7:05', label: ' Gym ', repeat: 'daily' } }, []);
+    expect(command).toEqual({
+      name: 'setAlarm',
+      args: { time: '07:05', label: 'Gym', repeat: { type: 'days', days: [0, 1, 2, 3, 4, 5, 6] } },
+    });
+  });
+
+  it('names unlabelled alarms and drops repeated weekdays', () => {
+    const command = parseCommand({ name: 'setAlarm', args: { time: '06:30', repeat: 'days', days: [1, 3, 3] } }, []);
+    expect(command.args).toMatchObject({ label: 'Alarm', repeat: { type: 'days', days: [1, 3] } });
+  });
+
+  it('rejects alarm times, repeats and weekdays it cannot use', () => {
+    expect(issuesOf(() => parseCommand({ name: 'setAlarm', args: { time: '24:00', repeat: 'once' } }, []))).toEqual([
+      'time must be "HH:MM" in 24-hour format',
+    ]);
+    expect(issuesOf(() => parseCommand({ name: 'setAlarm', args: { time: '7pm', repeat: 'hourly' } }, []))).toHaveLength(2);
+    expect(issuesOf(() => parseCommand({ name: 'setAlarm', args: { time: '07:00', repeat: 'days', days: [7] } }, []))).toEqual([
+      'days must list at least one weekday from 0 to 6',
+    ]);
+  });
+
+  it('rounds timer durations and rejects ones that are not positive', () => {
+    expect(parseCommand({ name: 'startTimer', args: { durationSeconds: 89.6 } }, []).args).toEqual({ durationSeconds: 90, label: null });
+    expect(() => parseCommand({ name: 'startTimer', args: { durationSeconds: 0 } }, [])).toThrow(InvalidCommandArgumentsError);
+    expect(() => parseCommand({ name: 'startTimer', args: { durationSeconds: 'soon' } }, [])).toThrow(InvalidCommandArgumentsError);
+  });
+
+  it('finds saved programs whatever their case, and rejects unknown ones', () => {
+    expect(parseCommand({ name: 'startTimerProgram', args: { program: 'tabata' } }, [TABATA]).args).toEqual({ program: TABATA, label: null });
+    expect(issuesOf(() => parseCommand({ name: 'startTimerProgram', args: { program: 'Yoga' } }, [TABATA]))).toEqual([
+      'program must be one of Tabata',
+    ]);
+  });
+
+  it('rejects functions that were never declared', () => {
+    expect(issuesOf(() => parseCommand({ name: 'deleteAllAlarms', args: {} }, []))).toEqual(['unknown command']);
+    expect(parseCommand({ name: 'lapStopwatch' }, [])).toEqual({ name: 'lapStopwatch', args: {} });
+  });
+});
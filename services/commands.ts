@@ -0,0 +1,199 @@
+import { FunctionCall, FunctionDeclaration, Schema, Type } from "@google/genai";
+import { AlarmRepeat, TimerProgram, ToolId, Weekday } from '../types';
+import { InvalidCommandArgumentsError } from './errors';
+import { addAlarm } from './alarmStore';
+import { addTimer } from './timerStore';
+import { createSimpleProgram } from './timerProgramStore';
+import { startStopwatch, stopStopwatch, lapStopwatch, resetStopwatch } from './stopwatchStore';
+import { settingsStore } from './settingsStore';
+import { t } from './i18n';
+import { formatTimeOfDay } from '../utils/units';
+import { formatCountdown } from '../utils/duration';
+import { describeRepeat } from '../utils/alarmRepeat';
+
+/** The app actions the command bar can perform, keyed by function name, with their validated arguments. */
+export interface CommandArgs {
+  setAlarm: { time: string; label: string; repeat: AlarmRepeat };
+  startTimer: { durationSeconds: number; label: string | null };
+  startTimerProgram: { program: TimerProgram; label: string | null };
+  startStopwatch: Record<string, never>;
+  stopStopwatch: Record<string, never>;
+  lapStopwatch: Record<string, never>;
+  resetStopwatch: Record<string, never>;
+}
+
+export type CommandName = keyof CommandArgs;
+
+export type AppCommand = { [N in CommandName]: { name: N; args: CommandArgs[N] } }[CommandName];
+
+export interface CommandOutcome {
+  tool: ToolId;
+  message: string;
+}
+
+const REPEAT_OPTIONS = ['once', 'weekdays', 'daily', 'days'];
+const EVERY_DAY: Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+
+const NO_PARAMETERS: Schema = { type: Type.OBJECT, properties: {} };
+
+const labelProperty: Schema = { type: Type.STRING, description: 'Optional short name, e.g. "Tea" or "Gym"' };
+
+/**
+ * Function declarations for every command. Keyed by `CommandName`, so adding
+ * an action to `CommandArgs` without declaring it to the model is a type error.
+ * Saved timer program names are offered as an enum, so they depend on `programs`.
+ */
+const declareCommands = (programs: TimerProgram[]): Record<CommandName, Omit<FunctionDeclaration, 'name'>> => ({
+  setAlarm: {
+    description: 'Create an alarm that rings at a time of day.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        time: { type: Type.STRING, description: '24-hour local time, formatted "HH:MM"' },
+        label: labelProperty,
+        repeat: { type: Type.STRING, enum: REPEAT_OPTIONS, description: '"days" requires the days parameter' },
+        days: {
+          type: Type.ARRAY,
+          items: { type: Type.INTEGER },
+          description: 'Days of the week the alarm repeats on, 0 = Sunday to 6 = Saturday',
+        },
+      },
+      required: ['time', 'repeat'],
+    },
+  },
+  startTimer: {
+    description: 'Start a countdown timer for a duration.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        durationSeconds: { type: Type.INTEGER, description: 'Total duration in seconds' },
+        label: labelProperty,
+      },
+      required: ['durationSeconds'],
+    },
+  },
+  startTimerProgram: {
+    description: 'Start one of the saved multi-stage timer programs, such as an interval workout.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        program: { type: Type.STRING, enum: programs.map(program => program.name) },
+        label: labelProperty,
+      },
+      required: ['program'],
+    },
+  },
+  startStopwatch: { description: 'Start or resume the stopwatch.', parameters: NO_PARAMETERS },
+  stopStopwatch: { description: 'Pause the stopwatch.', parameters: NO_PARAMETERS },
+  lapStopwatch: { description: 'Record a lap on the running stopwatch.', parameters: NO_PARAMETERS },
+  resetStopwatch: { description: 'Reset the stopwatch to zero, saving the session to its history.', parameters: NO_PARAMETERS },
+});
+
+export const getCommandDeclarations = (programs: TimerProgram[]): FunctionDeclaration[] => {
+  const declarations = declareCommands(programs);
+  return (Object.keys(declarations) as CommandName[])
+    .filter(name => name !== 'startTimerProgram' || programs.length > 0)
+    .map(name => ({ name, ...declarations[name] }));
+};
+
+// Every command is declared, so the declarations double as the list of names the model may call.
+const isCommandName = (name: unknown): name is CommandName =>
+  typeof name === 'string' && Object.hasOwn(declareCommands([]), name);
+
+const optionalLabel = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+
+const parseRepeat = (repeat: unknown, days: unknown, issues: string[]): AlarmRepeat => {
+  switch (repeat) {
+    case 'once': return { type: 'once' };
+    case 'weekdays': return { type: 'weekdays' };
+    case 'daily': return { type: 'days', days: EVERY_DAY };
+    case 'days': {
+      const valid = Array.isArray(days) ? days.filter((day): day is Weekday => Number.isInteger(day) && day >= 0 && day <= 6) : [];
+      if (valid.length === 0) issues.push('days must list at least one weekday from 0 to 6');
+      return { type: 'days', days: [...new Set(valid)] };
+    }
+    default:
+      issues.push(`repeat must be one of ${REPEAT_OPTIONS.join(', ')}`);
+      return { type: 'once' };
+  }
+};
+
+/** Validates a function call from the model and turns it into a typed command. */
+export const parseCommand = (call: FunctionCall, programs: TimerProgram[]): AppCommand => {
+  const { name } = call;
+  const args = call.args ?? {};
+  if (!isCommandName(name)) {
+    throw new InvalidCommandArgumentsError(String(name), ['unknown command']);
+  }
+
+  const issues: string[] = [];
+  const fail = () => new InvalidCommandArgumentsError(name, issues);
+
+  switch (name) {
+    case 'setAlarm': {
+      const time = typeof args.time === 'string' ? args.time.trim() : '';
+      const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+      if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) issues.push('time must be "HH:MM" in 24-hour format');
+      const repeat = parseRepeat(args.repeat, args.days, issues);
+      if (issues.length > 0 || !match) throw fail();
+      return {
+        name,
+        args: { time: `${match[1].padStart(2, '0')}:${match[2]}`, label: optionalLabel(args.label) ?? t('alarm.defaultLabel'), repeat },
+      };
+    }
+    case 'startTimer': {
+      const durationSeconds = Number(args.durationSeconds);
+      if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
+        issues.push('durationSeconds must be a positive number');
+        throw fail();
+      }
+      return { name, args: { durationSeconds: Math.round(durationSeconds), label: optionalLabel(args.label) } };
+    }
+    case 'startTimerProgram': {
+      const wanted = typeof args.program === 'string' ? args.program.trim().toLowerCase() : '';
+      const program = programs.find(candidate => candidate.name.toLowerCase() === wanted);
+      if (!program) {
+        issues.push(`program must be one of ${programs.map(candidate => candidate.name).join(', ')}`);
+        throw fail();
+      }
+      return { name, args: { program, label: optionalLabel(args.label) } };
+    }
+    default:
+      return { name, args: {} };
+  }
+};
+
+/** Performs a command against the app's stores and describes what happened. */
+export const executeCommand = (command: AppCommand, now = Date.now()): CommandOutcome => {
+  switch (command.name) {
+    case 'setAlarm': {
+      const { time, label, repeat } = command.args;
+      addAlarm({ time, label, repeat, soundId: null });
+      const when = formatTimeOfDay(time, settingsStore.get().clockFormat);
+      return { tool: 'alarm', message: t('command.alarmSet', { label, time: when, repeat: describeRepeat(repeat) }) };
+    }
+    case 'startTimer': {
+      const { durationSeconds, label } = command.args;
+      const timer = addTimer(createSimpleProgram(durationSeconds), label ?? undefined, now);
+      return { tool: 'timer', message: t('command.timerStarted', { label: timer.label, duration: formatCountdown(durationSeconds * 1000) }) };
+    }
+    case 'startTimerProgram': {
+      const { program, label } = command.args;
+      const timer = addTimer(program, label ?? undefined, now);
+      return { tool: 'timer', message: t('command.programStarted', { label: timer.label }) };
+    }
+    case 'startStopwatch':
+      startStopwatch(now);
+      return { tool: 'stopwatch', message: t('command.stopwatchStarted') };
+    case 'stopStopwatch':
+      stopStopwatch(now);
+      return { tool: 'stopwatch', message: t('command.stopwatchPaused') };
+    case 'lapStopwatch':
+      lapStopwatch(now);
+      return { tool: 'stopwatch', message: t('command.lapRecorded') };
+    case 'resetStopwatch':
+      resetStopwatch(now);
+      return { tool: 'stopwatch', message: t('command.stopwatchReset') };
+  }
+};
@@ -0,0 +1,117 @@
+export type WeatherErrorKind =
+  | 'missing-api-key'
+  | 'network'
+  | 'malformed-response'
+  | 'invalid-data';
+
+/** Base class for weather failures; views branch on `kind` rather than on message text. */
+export class WeatherError extends Error {
+  readonly kind: WeatherErrorKind;
+
+  constructor(kind: WeatherErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'WeatherError';
+    this.kind = kind;
+  }
+}
+
+export class MissingApiKeyError extends WeatherError {
+  constructor() {
+    super('missing-api-key', 'Weather service is disabled. API key not found.');
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class WeatherNetworkError extends WeatherError {
+  constructor(cause?: unknown) {
+    super('network', 'Could not fetch weather data. Please try again later.', { cause });
+    this.name = 'WeatherNetworkError';
+  }
+}
+
+/** The provider answered, but not with parseable JSON. */
+export class MalformedWeatherResponseError extends WeatherError {
+  readonly responseText: string;
+
+  constructor(responseText: string, cause?: unknown) {
+    super('malformed-response', 'Failed to parse weather data. The response was not valid JSON.', { cause });
+    this.name = 'MalformedWeatherResponseError';
+    this.responseText = responseText;
+  }
+}
+
+/** The response parsed, but its fields have the wrong types, units or ranges. */
+export class InvalidWeatherDataError extends WeatherError {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super('invalid-data', `Weather data failed validation: ${issues.join('; ')}`);
+    this.name = 'InvalidWeatherDataError';
+    this.issues = issues;
+  }
+}
+
+export type CommandErrorKind =
+  | 'missing-api-key'
+  | 'network'
+  | 'not-understood'
+  | 'invalid-arguments';
+
+/** Base class for command bar failures; like weather errors, callers branch on `kind`. */
+export class CommandError extends Error {
+  readonly kind: CommandErrorKind;
+
+  constructor(kind: CommandErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'CommandError';
+    this.kind = kind;
+  }
+}
+
+/** The model answered without calling any of the app's functions. */
+export class CommandNotUnderstoodError extends CommandError {
+  readonly responseText: string;
+
+  constructor(responseText: string) {
+    super('not-understood', 'The command did not match any action.');
+    this.name = 'CommandNotUnderstoodError';
+    this.responseText = responseText;
+  }
+}
+
+/** The model called a function, but with arguments the app cannot act on. */
+export class InvalidCommandArgumentsError extends CommandError {
+  readonly issues: string[];
+
+  constructor(command: string, issues: string[]) {
+    super('invalid-arguments', `Invalid arguments for ${command}: ${issues.join('; ')}`);
+    this.name = 'InvalidCommandArgumentsError';
+    this.issues = issues;
+  }
+}
+
+export type SoundErrorKind = 'too-large' | 'unsupported' | 'storage';
+
+/** Failures when adding a custom sound; the settings view branches on `kind`. */
+export class SoundError extends Error {
+  readonly kind: SoundErrorKind;
+
+  constructor(kind: SoundErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SoundError';
+    this.kind = kind;
+  }
+}
+
+export type BackupErrorKind = 'invalid-file' | 'unsupported-version';
+
+/** A backup file that cannot be restored; the settings view branches on `kind`. */
+export class BackupError extends Error {
+  readonly kind: BackupErrorKind;
+
+  constructor(kind: BackupErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'BackupError';
+    this.kind = kind;
+  }
+}
@@ -0,0 +1,13 @@
+import { GoogleGenAI } from "@google/genai";
+
+if (!process.env.API_KEY) {
+  // This check is for development; in the target environment, the key is assumed to be set.
+  console.warn("API_KEY environment variable not found. Gemini features will be disabled.");
+}
+
+/** The Gemini client shared by the weather provider and the command bar. */
+export const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || "DISABLED" });
+
+export const GEMINI_MODEL = "gemini-2.5-flash";
+
+export const hasGeminiApiKey = () => Boolean(process.env.API_KEY) && process.env.API_KEY !== "DISABLED";
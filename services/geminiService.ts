@@ -1,23 +1,108 @@
-import { GoogleGenAI } from "@google/genai";
-import { WeatherData, GroundingSource } from '../types';
+import { Type } from "@google/genai";
+import { GroundingSource, LocaleId, WeatherProvider, WeatherResult } from '../types';
+import { WeatherError, MissingApiKeyError, WeatherNetworkError } from './errors';
+import { ai, GEMINI_MODEL, hasGeminiApiKey } from './geminiClient';
+import { searchLocations } from './openMeteoService';
+import { languageName } from './i18n';
+import { validateWeatherData, validateWeatherForecast, validateWeatherAlerts, parseJsonResponse, isGroundingSource } from './weatherValidation';
 
-if (!process.env.API_KEY) {
-  // This check is for development; in the target environment, the key is assumed to be set.
-  console.warn("API_KEY environment variable not found. Weather feature will be disabled.");
-}
+const HOURLY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    time: { type: Type.STRING, description: 'Local time at the location, formatted "YYYY-MM-DDTHH:00"' },
+    temperature: { type: Type.NUMBER, description: 'Temperature in degrees Celsius' },
+    condition: { type: Type.STRING },
+    icon: { type: Type.STRING, description: 'A single emoji' },
+    precipitationChance: { type: Type.NUMBER, description: 'Chance of precipitation, 0 to 100' },
+  },
+  required: ['time', 'temperature', 'condition', 'icon', 'precipitationChance'],
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || "DISABLED" });
+const DAILY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    date: { type: Type.STRING, description: 'Local date at the location, formatted "YYYY-MM-DD"' },
+    high: { type: Type.NUMBER, description: 'High temperature in degrees Celsius' },
+    low: { type: Type.NUMBER, description: 'Low temperature in degrees Celsius' },
+    condition: { type: Type.STRING },
+    icon: { type: Type.STRING, description: 'A single emoji' },
+    precipitationChance: { type: Type.NUMBER, description: 'Chance of precipitation, 0 to 100' },
+  },
+  required: ['date', 'high', 'low', 'condition', 'icon', 'precipitationChance'],
+};
+
+const ALERT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    kind: { type: Type.STRING, enum: ['storm', 'heat', 'frost', 'wind', 'rain', 'other'] },
+    severity: { type: Type.STRING, enum: ['advisory', 'watch', 'warning'] },
+    title: { type: Type.STRING, description: 'Headline of the official warning, e.g. "Severe Thunderstorm Warning"' },
+    description: { type: Type.STRING, description: 'One or two sentences on what to expect' },
+    startsAt: { type: Type.STRING, description: 'Local start time, formatted "YYYY-MM-DDTHH:00", if known' },
+    endsAt: { type: Type.STRING, description: 'Local end time, formatted "YYYY-MM-DDTHH:00", if known' },
+  },
+  required: ['kind', 'severity', 'title'],
+};
+
+const WEATHER_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    city: { type: Type.STRING, description: 'City or locality name, e.g. "Mountain View"' },
+    temperature: { type: Type.NUMBER, description: 'Current temperature in degrees Celsius' },
+    condition: { type: Type.STRING, description: 'Short condition, e.g. "Clear", "Partly Cloudy", "Rain"' },
+    humidity: { type: Type.NUMBER, description: 'Relative humidity as a percentage from 0 to 100' },
+    windSpeed: { type: Type.NUMBER, description: 'Wind speed in km/h' },
+    icon: { type: Type.STRING, description: 'A single emoji representing the weather' },
+    hourly: { type: Type.ARRAY, items: HOURLY_SCHEMA, description: 'The next 24 hours, starting with the current hour' },
+    daily: { type: Type.ARRAY, items: DAILY_SCHEMA, description: 'Today and the following 6 days' },
+    alerts: { type: Type.ARRAY, items: ALERT_SCHEMA, description: 'Active official weather warnings; empty if there are none' },
+  },
+  required: ['city', 'temperature', 'condition', 'humidity', 'windSpeed', 'icon', 'hourly', 'daily'],
+  propertyOrdering: ['city', 'temperature', 'condition', 'humidity', 'windSpeed', 'icon', 'hourly', 'daily', 'alerts'],
+};
+
+const validateWeatherResponse = (value: unknown): Omit<WeatherResult, 'sources'> => ({
+  weatherData: validateWeatherData(value),
+  forecast: validateWeatherForecast(value),
+  alerts: validateWeatherAlerts(value),
+});
+
+/**
+ * Asks the model to turn a malformed or invalid answer into schema-conforming
+ * JSON. Structured output cannot be combined with the Google Search tool, so
+ * it is only used for this second, ungrounded pass.
+ */
+const repairWeatherResponse = async (text: string, problem: string, language: string): Promise<Omit<WeatherResult, 'sources'>> => {
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: `
+      The following text was supposed to describe the current weather and forecast as a JSON object, but ${problem}.
+      Rewrite it to match the response schema. Convert temperatures to Celsius and wind speeds to km/h.
+      Do not invent values that are not present in the text. Keep the city, condition and alert text in ${language}.
+
+      ${text}
+    `,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: WEATHER_RESPONSE_SCHEMA,
+    },
+  });
+  return validateWeatherResponse(parseJsonResponse(response.text ?? ''));
+};
 
 export const fetchWeather = async (
   lat: number,
-  lon: number
-): Promise<{ weatherData: WeatherData; sources: GroundingSource[] }> => {
-  if (!process.env.API_KEY || process.env.API_KEY === "DISABLED") {
-    throw new Error("API key is not configured.");
+  lon: number,
+  locale: LocaleId
+): Promise<WeatherResult> => {
+  if (!hasGeminiApiKey()) {
+    throw new MissingApiKeyError();
   }
 
+  const language = languageName(locale, 'en');
+
   const prompt = `
-    Based on a Google Search for the current weather at latitude ${lat} and longitude ${lon},
+    Based on a Google Search for the current weather and forecast at latitude ${lat} and longitude ${lon},
     provide the following information in a single, valid JSON object.
     
     The JSON object must have these exact keys and value types:
@@ -27,43 +112,59 @@ export const fetchWeather = async (
     - "humidity": number (percentage, e.g., 65)
     - "windSpeed": number (in km/h)
     - "icon": string (a single emoji representing the weather, e.g., "☀️", "☁️", "🌧️")
+    - "hourly": array of 24 objects for the next 24 hours, starting with the current hour, each with
+      "time" (local time at the location, "YYYY-MM-DDTHH:00"), "temperature" (Celsius), "condition",
+      "icon" (single emoji) and "precipitationChance" (percentage, 0-100)
+    - "daily": array of 7 objects for today and the following 6 days, each with
+      "date" (local date, "YYYY-MM-DD"), "high" and "low" (Celsius), "condition",
+      "icon" (single emoji) and "precipitationChance" (percentage, 0-100)
+    - "alerts": array of active official weather warnings for the location (empty if there are none), each with
+      "kind" (one of "storm", "heat", "frost", "wind", "rain", "other"), "severity" (one of "advisory", "watch", "warning"),
+      "title", "description", and if known "startsAt" and "endsAt" (local time, "YYYY-MM-DDTHH:00")
+
+    Write "city", every "condition", and the alert "title" and "description" in ${language}, using the name
+    of the city as it is usually written in that language. Keep the JSON keys and the "kind" and "severity"
+    values in English exactly as listed above.
 
     IMPORTANT: Your entire response must be ONLY the raw JSON object, without any surrounding text, explanations, or markdown formatting like \`\`\`json ... \`\`\`.
   `;
 
   try {
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+      model: GEMINI_MODEL,
       contents: prompt,
       config: {
         tools: [{ googleSearch: {} }],
       },
     });
 
-    const text = response.text;
-    // First, try to parse directly. If it fails, try cleaning.
-    let weatherData: WeatherData;
+    const text = response.text ?? '';
+    let result: Omit<WeatherResult, 'sources'>;
     try {
-        weatherData = JSON.parse(text);
-    } catch {
-        const cleanedText = text.replace(/```json/g, "").replace(/```/g, "").trim();
-        weatherData = JSON.parse(cleanedText);
-    }
-    
-
-    // Validate essential fields
-    if (!weatherData.city || typeof weatherData.temperature !== 'number') {
-        throw new Error('Parsed weather data is missing essential fields.');
+      result = validateWeatherResponse(parseJsonResponse(text));
+    } catch (error) {
+      if (!(error instanceof WeatherError)) throw error;
+      console.warn("Weather response needs repair:", error.message);
+      result = await repairWeatherResponse(text, error.message, language);
     }
 
-    const sources = (response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? []) as GroundingSource[];
+    const chunks: unknown[] = response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
+    const sources: GroundingSource[] = chunks.filter(isGroundingSource);
 
-    return { weatherData, sources };
+    return { ...result, sources };
   } catch (error) {
     console.error("Error fetching or parsing weather data:", error);
-    if (error instanceof SyntaxError) {
-      throw new Error("Failed to parse weather data from the AI. The response was not valid JSON.");
+    if (error instanceof WeatherError) {
+      throw error;
     }
-    throw new Error("Could not fetch weather data. Please try again later.");
+    throw new WeatherNetworkError(error);
   }
 };
+
+export const geminiWeatherProvider: WeatherProvider = {
+  id: 'gemini',
+  name: 'Gemini with Google Search',
+  fetchWeather,
+  // Geocoding is deterministic and keyless, so it is not worth a model call.
+  searchLocations,
+};
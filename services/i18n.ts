@@ -0,0 +1,79 @@
+import { LocaleId, PluralMessage } from '../types';
+import en, { Catalog, MessageKey } from '../locales/en';
+import es from '../locales/es';
+import ar from '../locales/ar';
+import { settingsStore } from './settingsStore';
+
+export type MessageParams = Record<string, string | number>;
+
+interface LocaleDefinition {
+  catalog: Catalog;
+  dir: 'ltr' | 'rtl';
+}
+
+const LOCALES: Record<LocaleId, LocaleDefinition> = {
+  en: { catalog: en, dir: 'ltr' },
+  es: { catalog: es, dir: 'ltr' },
+  ar: { catalog: ar, dir: 'rtl' },
+};
+
+const DEFAULT_LOCALE: LocaleId = 'en';
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as LocaleId[];
+
+export const isLocaleId = (value: unknown): value is LocaleId => typeof value === 'string' && value in LOCALES;
+
+export interface ActiveLocale {
+  id: LocaleId;
+  tag: string; // BCP 47 tag for Intl formatters, e.g. "es-MX"
+  dir: 'ltr' | 'rtl';
+}
+
+const browserLanguages = (): readonly string[] =>
+  navigator.languages?.length ? navigator.languages : [navigator.language];
+
+const baseLanguage = (tag: string) => tag.split('-')[0].toLowerCase();
+
+/** The first of the browser's preferred languages that the app is translated into. */
+export const detectLocale = (): LocaleId => browserLanguages().map(baseLanguage).find(isLocaleId) ?? DEFAULT_LOCALE;
+
+/**
+ * Resolves a locale preference from settings, null meaning "follow the
+ * browser". Dates and numbers keep the browser's region when it speaks the
+ * chosen language, so Spanish in Mexico formats as es-MX rather than es.
+ */
+export const resolveLocale = (preference: LocaleId | null): ActiveLocale => {
+  const id = preference ?? detectLocale();
+  const tag = browserLanguages().find(candidate => baseLanguage(candidate) === id) ?? id;
+  return { id, tag, dir: LOCALES[id].dir };
+};
+
+export const getLocale = (): ActiveLocale => resolveLocale(settingsStore.get().locale);
+
+const selectPlural = (locale: ActiveLocale, message: PluralMessage, count: string | number | undefined) => {
+  if (typeof count !== 'number') return message.other;
+  return message[new Intl.PluralRules(locale.tag).select(count)] ?? message.other;
+};
+
+/** Looks up a message and fills in its `{name}` placeholders; numbers are formatted for the locale. */
+export const translate = (locale: ActiveLocale, key: MessageKey, params: MessageParams = {}): string => {
+  const message = LOCALES[locale.id].catalog[key] ?? en[key];
+  const template = typeof message === 'string' ? message : selectPlural(locale, message, params.count);
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? new Intl.NumberFormat(locale.tag).format(value) : value;
+  });
+};
+
+/** Translates into the current locale, for code outside of components, such as notifications. */
+export const t = (key: MessageKey, params?: MessageParams) => translate(getLocale(), key, params);
+
+/** A language's name, written in `inLocale` (its own language by default). */
+export const languageName = (id: LocaleId, inLocale: string = id): string => {
+  try {
+    return new Intl.DisplayNames([inLocale], { type: 'language' }).of(id) ?? id;
+  } catch {
+    return id;
+  }
+};
@@ -0,0 +1,43 @@
+import { LocationMatch, SavedLocation } from '../types';
+import { createPersistentStore } from './persistentStore';
+
+export interface LocationState {
+  locations: SavedLocation[];
+  defaultId: string | null; // shown when the device location is unavailable
+}
+
+export const locationStore = createPersistentStore<LocationState>('orientation-sense:locations', {
+  locations: [],
+  defaultId: null,
+});
+
+const isSameLocation = (a: LocationMatch, b: LocationMatch) =>
+  a.coords.lat.toFixed(2) === b.coords.lat.toFixed(2) && a.coords.lon.toFixed(2) === b.coords.lon.toFixed(2);
+
+/** Saves a search match, returning the existing entry if that place is already saved. */
+export const saveLocation = (match: LocationMatch): SavedLocation => {
+  const existing = locationStore.get().locations.find(location => isSameLocation(location, match));
+  if (existing) return existing;
+
+  const location: SavedLocation = { id: crypto.randomUUID(), ...match };
+  locationStore.set(state => ({
+    locations: [...state.locations, location],
+    // The first saved place becomes the default so denied geolocation always has somewhere to go.
+    defaultId: state.defaultId ?? location.id,
+  }));
+  return location;
+};
+
+export const removeLocation = (id: string) => {
+  locationStore.set(state => {
+    const locations = state.locations.filter(location => location.id !== id);
+    return {
+      locations,
+      defaultId: state.defaultId === id ? (locations[0]?.id ?? null) : state.defaultId,
+    };
+  });
+};
+
+export const setDefaultLocation = (id: string) => {
+  locationStore.set(state => ({ ...state, defaultId: id }));
+};
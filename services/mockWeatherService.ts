@@ -0,0 +1,62 @@
+import { LocationMatch, WeatherProvider, WeatherResult } from '../types';
+import { WEATHER_FIXTURES } from './weatherFixtures';
+import { weatherAlertId } from './weatherAlerts';
+
+const MOCK_LATENCY_MS = 400;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+const formatDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const formatHour = (date: Date) => `${formatDate(date)}T${pad(date.getHours())}:00`;
+
+/** Returns the fixture closest to the requested coordinates, dated from the current hour. Fixtures are English only. */
+export const fetchWeather = async (lat: number, lon: number): Promise<WeatherResult> => {
+  const distance = (fixtureLat: number, fixtureLon: number) => Math.hypot(fixtureLat - lat, fixtureLon - lon);
+  const fixture = WEATHER_FIXTURES.reduce((closest, candidate) =>
+    distance(candidate.lat, candidate.lon) < distance(closest.lat, closest.lon) ? candidate : closest
+  );
+
+  await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+  const now = new Date();
+  const hourFromNow = (offset: number) => formatHour(new Date(now.getFullYear(), now.getMonth(), now.getDate(), now.getHours() + offset));
+  return structuredClone({
+    weatherData: fixture.weatherData,
+    forecast: {
+      hourly: fixture.hourly.map((entry, index) => ({
+        time: hourFromNow(index),
+        ...entry,
+      })),
+      daily: fixture.daily.map((entry, index) => ({
+        date: formatDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() + index)),
+        ...entry,
+      })),
+    },
+    alerts: fixture.alerts.map(({ startHour, endHour, ...alert }) => ({
+      ...alert,
+      id: weatherAlertId(alert.kind, alert.title, hourFromNow(startHour).slice(0, 10)),
+      startsAt: hourFromNow(startHour),
+      endsAt: hourFromNow(endHour),
+      source: 'provider' as const,
+    })),
+    sources: fixture.sources,
+  });
+};
+
+export const searchLocations = async (query: string): Promise<LocationMatch[]> => {
+  await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+  const needle = query.trim().toLowerCase();
+  return WEATHER_FIXTURES
+    .filter(fixture => fixture.weatherData.city.toLowerCase().includes(needle))
+    .map(fixture => ({
+      name: fixture.weatherData.city,
+      region: fixture.region,
+      coords: { lat: fixture.lat, lon: fixture.lon },
+    }));
+};
+
+export const mockWeatherProvider: WeatherProvider = {
+  id: 'mock',
+  name: 'Mock (fixtures)',
+  fetchWeather,
+  searchLocations,
+};
@@ -0,0 +1,77 @@
+export type NotificationAction = 'snooze' | 'stop' | 'restart' | 'open';
+
+export interface NotificationActionMessage {
+  type: 'notification-action';
+  action: NotificationAction;
+  tag: string;
+}
+
+export interface AppNotification {
+  title: string;
+  body: string;
+  tag: string;
+  actions?: { action: Exclude<NotificationAction, 'open'>; title: string }[];
+  requireInteraction?: boolean;
+}
+
+const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+const getRegistration = async (): Promise<ServiceWorkerRegistration | undefined> => {
+  if (!('serviceWorker' in navigator)) return undefined;
+  return navigator.serviceWorker.getRegistration();
+};
+
+export const registerServiceWorker = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.warn('Service worker registration failed:', error);
+  }
+};
+
+/** Asks for permission if it has not been decided yet. Call from a user gesture. */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  return Notification.permission === 'granted';
+};
+
+/**
+ * Shows a system notification. Action buttons are only supported on
+ * notifications raised through the service worker, so the plain
+ * `Notification` constructor is a fallback without them. Resolves to false
+ * when notifications are unsupported or not permitted.
+ */
+export const showNotification = async ({ title, body, tag, actions = [], requireInteraction = false }: AppNotification): Promise<boolean> => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return false;
+
+  const registration = await getRegistration();
+  if (registration) {
+    // `actions` is missing from the DOM lib typings but supported by the browsers that show them.
+    await registration.showNotification(title, { body, tag, requireInteraction, icon: '/icon.svg', actions } as NotificationOptions);
+  } else {
+    new Notification(title, { body, tag, icon: '/icon.svg' });
+  }
+  return true;
+};
+
+export const closeNotification = async (tag: string) => {
+  const registration = await getRegistration();
+  const notifications = (await registration?.getNotifications({ tag })) ?? [];
+  notifications.forEach(notification => notification.close());
+};
+
+export const onNotificationAction = (handler: (message: NotificationActionMessage) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'notification-action') {
+      handler(event.data as NotificationActionMessage);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
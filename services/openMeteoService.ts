@@ -0,0 +1,248 @@
+import { LocaleId, LocationMatch, WeatherAlert, WeatherAlertKind, WeatherAlertSeverity, WeatherProvider, WeatherResult } from '../types';
+import { MessageKey } from '../locales/en';
+import { WeatherNetworkError } from './errors';
+import { createPersistentStore } from './persistentStore';
+import { weatherAlertId } from './weatherAlerts';
+import { ActiveLocale, resolveLocale, translate } from './i18n';
+import { validateWeatherData, validateWeatherForecast } from './weatherValidation';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const GEOCODE_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const REVERSE_GEOCODE_URL = 'https://nominatim.openstreetmap.org/reverse';
+const MAX_LOCATION_MATCHES = 5;
+/** Place names are looked up once per ~1 km square, matching the weather cache. */
+const PLACE_NAME_PRECISION = 2;
+const MAX_PLACE_NAMES = 20;
+
+interface OpenMeteoForecastResponse {
+  current: {
+    time: string;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    wind_speed_10m: number;
+    weather_code: number;
+  };
+  // Hours and days without model data are null.
+  hourly: {
+    time: string[];
+    temperature_2m: (number | null)[];
+    weather_code: (number | null)[];
+    precipitation_probability: (number | null)[];
+  };
+  daily: {
+    time: string[];
+    temperature_2m_max: (number | null)[];
+    temperature_2m_min: (number | null)[];
+    weather_code: (number | null)[];
+    precipitation_probability_max: (number | null)[];
+  };
+}
+
+const HOURS_AHEAD = 24;
+const FORECAST_DAYS = 7;
+
+// WMO weather interpretation codes, as documented by Open-Meteo. Open-Meteo only sends the codes,
+// so condition text comes from the app's own message catalogs.
+const WEATHER_CODES: { codes: number[]; condition: MessageKey; icon: string }[] = [
+  { codes: [0], condition: 'condition.clear', icon: '☀️' },
+  { codes: [1], condition: 'condition.mainlyClear', icon: '🌤️' },
+  { codes: [2], condition: 'condition.partlyCloudy', icon: '⛅' },
+  { codes: [3], condition: 'condition.overcast', icon: '☁️' },
+  { codes: [45, 48], condition: 'condition.fog', icon: '🌫️' },
+  { codes: [51, 53, 55, 56, 57], condition: 'condition.drizzle', icon: '🌦️' },
+  { codes: [61, 63, 65, 66, 67, 80, 81, 82], condition: 'condition.rain', icon: '🌧️' },
+  { codes: [71, 73, 75, 77, 85, 86], condition: 'condition.snow', icon: '🌨️' },
+  { codes: [95, 96, 99], condition: 'condition.thunderstorm', icon: '⛈️' },
+];
+
+// Open-Meteo publishes no official warnings, so alerts are derived from severe weather codes in the forecast.
+const SEVERE_WEATHER_CODES: { codes: number[]; kind: WeatherAlertKind; severity: WeatherAlertSeverity; title: MessageKey }[] = [
+  { codes: [96, 99], kind: 'storm', severity: 'warning', title: 'severeWeather.thunderstormWithHail' },
+  { codes: [95], kind: 'storm', severity: 'watch', title: 'severeWeather.thunderstorm' },
+  { codes: [66, 67], kind: 'frost', severity: 'warning', title: 'severeWeather.freezingRain' },
+  { codes: [65, 82], kind: 'rain', severity: 'watch', title: 'severeWeather.heavyRain' },
+  { codes: [75, 86], kind: 'other', severity: 'watch', title: 'severeWeather.heavySnow' },
+];
+
+const deriveAlerts = (times: string[], codes: (number | null)[], locale: ActiveLocale): WeatherAlert[] =>
+  SEVERE_WEATHER_CODES.flatMap(({ codes: severeCodes, kind, severity, title: titleKey }) => {
+    const hours = times.filter((_, index) => severeCodes.includes(codes[index] ?? -1));
+    if (hours.length === 0) return [];
+    const startsAt = hours[0];
+    const title = translate(locale, titleKey);
+    return [{
+      // Keyed by the message rather than its translation, so switching language does not notify again.
+      id: weatherAlertId(kind, titleKey, startsAt.slice(0, 10)),
+      kind,
+      severity,
+      title,
+      description: translate(locale, 'severeWeather.forecastHours', { title, count: hours.length, hours: HOURS_AHEAD }),
+      startsAt,
+      endsAt: hours[hours.length - 1],
+      source: 'provider',
+    }];
+  });
+
+export const describeWeatherCode = (code: number, locale: ActiveLocale): { condition: string; icon: string } => {
+  const match = WEATHER_CODES.find(entry => entry.codes.includes(code));
+  return match
+    ? { condition: translate(locale, match.condition), icon: match.icon }
+    : { condition: translate(locale, 'condition.unknown'), icon: '🌡️' };
+};
+
+const formatCoordinates = (lat: number, lon: number) => `${lat.toFixed(2)}, ${lon.toFixed(2)}`;
+
+interface CachedPlaceName {
+  name: string;
+  cachedAt: number;
+}
+
+// Reverse geocoding sends the coordinates to OpenStreetMap, so each place is only looked up once.
+const placeNameStore = createPersistentStore<Record<string, CachedPlaceName>>('orientation-sense:place-names', {});
+
+const placeNameKey = (lat: number, lon: number, language: LocaleId) =>
+  `${language}:${lat.toFixed(PLACE_NAME_PRECISION)},${lon.toFixed(PLACE_NAME_PRECISION)}`;
+
+const cachePlaceName = (key: string, name: string) => {
+  placeNameStore.set(cache => {
+    const entries = Object.entries({ ...cache, [key]: { name, cachedAt: Date.now() } });
+    return Object.fromEntries(entries.sort(([, a], [, b]) => b.cachedAt - a.cachedAt).slice(0, MAX_PLACE_NAMES));
+  });
+};
+
+const reverseGeocode = async (lat: number, lon: number, language: LocaleId): Promise<string> => {
+  const key = placeNameKey(lat, lon, language);
+  const cached = placeNameStore.get()[key];
+  if (cached) return cached.name;
+  try {
+    const params = new URLSearchParams({
+      format: 'jsonv2', lat: String(lat), lon: String(lon), zoom: '10', 'accept-language': language,
+    });
+    const response = await fetch(`${REVERSE_GEOCODE_URL}?${params}`);
+    if (!response.ok) return formatCoordinates(lat, lon);
+    const { address = {}, name } = await response.json();
+    const placeName = address.city || address.town || address.village || name;
+    if (!placeName) return formatCoordinates(lat, lon);
+    cachePlaceName(key, placeName);
+    return placeName;
+  } catch {
+    // The city name is cosmetic; never fail the whole reading because of it.
+    return formatCoordinates(lat, lon);
+  }
+};
+
+export const fetchWeather = async (lat: number, lon: number, language: LocaleId): Promise<WeatherResult> => {
+  const locale = resolveLocale(language);
+  const params = new URLSearchParams({
+    latitude: String(lat),
+    longitude: String(lon),
+    current: 'temperature_2m,relative_humidity_2m,wind_speed_10m,weather_code',
+    hourly: 'temperature_2m,weather_code,precipitation_probability',
+    daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max',
+    wind_speed_unit: 'kmh',
+    // Report times in the location's own timezone, matching the forecast types.
+    timezone: 'auto',
+    forecast_days: String(FORECAST_DAYS),
+  });
+
+  let data: OpenMeteoForecastResponse;
+  try {
+    const response = await fetch(`${FORECAST_URL}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Open-Meteo responded with ${response.status}`);
+    }
+    data = await response.json();
+  } catch (error) {
+    console.error("Error fetching weather data from Open-Meteo:", error);
+    throw new WeatherNetworkError(error);
+  }
+
+  const { condition, icon } = describeWeatherCode(data.current.weather_code, locale);
+  const weatherData = validateWeatherData({
+    city: await reverseGeocode(lat, lon, language),
+    temperature: data.current.temperature_2m,
+    condition,
+    humidity: data.current.relative_humidity_2m,
+    windSpeed: data.current.wind_speed_10m,
+    icon,
+  });
+
+  // Hourly data starts at midnight; skip ahead to the current hour.
+  const currentHour = data.current.time.slice(0, 13);
+  const firstHour = Math.max(data.hourly.time.findIndex(time => time.slice(0, 13) >= currentHour), 0);
+  const hourIndexes = data.hourly.time.map((_, index) => index).slice(firstHour, firstHour + HOURS_AHEAD);
+
+  // Hours and days Open-Meteo has no data for are left out rather than failing the whole reading.
+  const forecast = validateWeatherForecast({
+    hourly: hourIndexes.flatMap(index => {
+      const temperature = data.hourly.temperature_2m[index];
+      const code = data.hourly.weather_code[index];
+      if (temperature === null || code === null) return [];
+      return [{
+        time: data.hourly.time[index],
+        temperature,
+        ...describeWeatherCode(code, locale),
+        precipitationChance: data.hourly.precipitation_probability[index] ?? 0,
+      }];
+    }),
+    daily: data.daily.time.flatMap((date, index) => {
+      const high = data.daily.temperature_2m_max[index];
+      const low = data.daily.temperature_2m_min[index];
+      const code = data.daily.weather_code[index];
+      if (high === null || low === null || code === null) return [];
+      return [{
+        date,
+        high,
+        low,
+        ...describeWeatherCode(code, locale),
+        precipitationChance: data.daily.precipitation_probability_max[index] ?? 0,
+      }];
+    }),
+  });
+
+  const alerts = deriveAlerts(
+    hourIndexes.map(index => data.hourly.time[index]),
+    hourIndexes.map(index => data.hourly.weather_code[index]),
+    locale
+  );
+
+  return { weatherData, forecast, alerts, sources: [] };
+};
+
+interface OpenMeteoGeocodingResponse {
+  results?: {
+    name: string;
+    latitude: number;
+    longitude: number;
+    admin1?: string;
+    country?: string;
+  }[];
+}
+
+export const searchLocations = async (query: string, language: LocaleId): Promise<LocationMatch[]> => {
+  const params = new URLSearchParams({ name: query, count: String(MAX_LOCATION_MATCHES), language, format: 'json' });
+  let data: OpenMeteoGeocodingResponse;
+  try {
+    const response = await fetch(`${GEOCODE_URL}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Open-Meteo geocoding responded with ${response.status}`);
+    }
+    data = await response.json();
+  } catch (error) {
+    console.error("Error searching locations on Open-Meteo:", error);
+    throw new WeatherNetworkError(error);
+  }
+
+  return (data.results ?? []).map(result => ({
+    name: result.name,
+    region: [result.admin1, result.country].filter(Boolean).join(', '),
+    coords: { lat: result.latitude, lon: result.longitude },
+  }));
+};
+
+export const openMeteoWeatherProvider: WeatherProvider = {
+  id: 'open-meteo',
+  name: 'Open-Meteo',
+  fetchWeather,
+  searchLocations,
+};
@@ -0,0 +1,123 @@
+import { DeviceOrientation, Orientation } from '../types';
+
+/** Tilt within this many degrees of flat is ignored, since the screen has no "up" then. */
+const FLAT_THRESHOLD_DEG = 25;
+/** How far past the 45° boundary the device must tilt before the orientation flips. */
+export const TILT_HYSTERESIS_DEG = 15;
+
+const ORIENTATION_ANGLES: Record<DeviceOrientation, number> = {
+  'portrait-primary': 0,
+  'landscape-primary': 90,
+  'portrait-secondary': 180,
+  'landscape-secondary': 270,
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/** Smallest absolute difference between two angles, in degrees (0–180). */
+const angularDistance = (a: number, b: number) => {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+};
+
+/** Maps a screen rotation angle (as in `screen.orientation.angle`) to the nearest orientation. */
+export const orientationFromAngle = (angle: number): DeviceOrientation => {
+  const normalized = ((Math.round(angle / 90) * 90) % 360 + 360) % 360;
+  return (Object.keys(ORIENTATION_ANGLES) as DeviceOrientation[])
+    .find(orientation => ORIENTATION_ANGLES[orientation] === normalized)!;
+};
+
+/**
+ * Converts `DeviceOrientationEvent` beta/gamma into the angle the screen would
+ * be rotated to (0 = upright portrait, 90 = top of the device pointing left),
+ * by projecting gravity onto the screen plane. Returns null when the device is
+ * lying too flat for the projection to be meaningful.
+ */
+export const angleFromTilt = (beta: number, gamma: number): number | null => {
+  const gravityX = Math.cos(toRadians(beta)) * Math.sin(toRadians(gamma));
+  const gravityY = -Math.sin(toRadians(beta));
+  if (Math.hypot(gravityX, gravityY) < Math.sin(toRadians(FLAT_THRESHOLD_DEG))) {
+    return null;
+  }
+  const angle = Math.atan2(-gravityX, -gravityY) * 180 / Math.PI;
+  return (angle + 360) % 360;
+};
+
+/**
+ * Keeps the previous orientation until the tilt angle is more than
+ * 45° + `hysteresis` away from it, so holding the device near a diagonal does
+ * not flip back and forth.
+ */
+export const resolveTiltOrientation = (
+  angle: number,
+  previous: Orientation,
+  hysteresis = TILT_HYSTERESIS_DEG
+): DeviceOrientation => {
+  if (previous !== 'unknown' && angularDistance(angle, ORIENTATION_ANGLES[previous]) <= 45 + hysteresis) {
+    return previous;
+  }
+  return orientationFromAngle(angle);
+};
+
+export const readScreenOrientation = (): Orientation => {
+  const { type, angle } = window.screen.orientation;
+  if (type.startsWith('portrait')) {
+      return angle === 0 ? 'portrait-primary' : 'portrait-secondary';
+  }
+  if (type.startsWith('landscape')) {
+      return angle === 90 ? 'landscape-primary' : 'landscape-secondary';
+  }
+  return 'unknown';
+};
+
+/** Legacy iOS `window.orientation`: 0, 90, -90 or 180 degrees, counter-clockwise. */
+export const readWindowOrientation = (): Orientation => {
+  const angle = (window as Window & { orientation?: number }).orientation;
+  return typeof angle === 'number' ? orientationFromAngle(angle) : 'unknown';
+};
+
+/** The window's aspect ratio can only tell portrait from landscape, not which way round. */
+export const readMediaQueryOrientation = (): Orientation =>
+  window.matchMedia('(orientation: portrait)').matches ? 'portrait-primary' : 'landscape-primary';
+
+export const hasScreenOrientation = () => typeof window !== 'undefined' && !!window.screen?.orientation;
+export const hasWindowOrientation = () => typeof window !== 'undefined' && 'orientation' in window;
+export const hasDeviceOrientationEvents = () => typeof window !== 'undefined' && 'DeviceOrientationEvent' in window;
+
+type DeviceOrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+/** iOS 13+ only delivers motion events after an explicit, gesture-initiated permission request. */
+export const motionPermissionRequired = () =>
+  hasDeviceOrientationEvents() &&
+  typeof (DeviceOrientationEvent as DeviceOrientationEventWithPermission).requestPermission === 'function';
+
+export const requestMotionPermission = async (): Promise<boolean> => {
+  const request = (DeviceOrientationEvent as DeviceOrientationEventWithPermission).requestPermission;
+  if (!request) return true;
+  try {
+    return (await request()) === 'granted';
+  } catch (error) {
+    console.warn('Motion permission request failed:', error);
+    return false;
+  }
+};
+
+/** Android reports compass-referenced readings on a separate event; elsewhere only the plain one exists. */
+export const absoluteOrientationEventName = (): 'deviceorientationabsolute' | 'deviceorientation' =>
+  typeof window !== 'undefined' && 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
+
+/**
+ * The direction the top of the screen points, in degrees clockwise from
+ * magnetic north, or null if the reading is not referenced to north. iOS
+ * provides the heading directly; elsewhere it is derived from `alpha`.
+ * `screenAngle` corrects for a rotated screen.
+ */
+export const readCompassHeading = (event: DeviceOrientationEvent, screenAngle = 0): number | null => {
+  const webkitHeading = (event as DeviceOrientationEvent & { webkitCompassHeading?: number }).webkitCompassHeading;
+  const heading = typeof webkitHeading === 'number' ? webkitHeading
+    : event.absolute && event.alpha !== null ? 360 - event.alpha
+    : null;
+  return heading === null ? null : ((heading + screenAngle) % 360 + 360) % 360;
+};
@@ -0,0 +1,110 @@
+type Listener = () => void;
+
+export interface PersistentStore<T> {
+  get: () => T;
+  set: (next: T | ((prev: T) => T)) => void;
+  /** Replaces the value with one from outside the app, such as a backup, fixing it up with `normalize` first. */
+  restore: (stored: T) => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+interface StoreMessage {
+  key: string;
+  value: unknown;
+}
+
+const CHANNEL_NAME = 'orientation-sense';
+
+let channel: BroadcastChannel | null | undefined;
+
+/** One channel shared by every store; null where BroadcastChannel is unavailable. */
+const getChannel = () => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel === 'function' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+};
+
+const readStoredValue = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn(`Could not read "${key}" from local storage:`, error);
+    return fallback;
+  }
+};
+
+const writeStoredValue = <T>(key: string, value: T) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not write "${key}" to local storage:`, error);
+  }
+};
+
+interface StoreOptions<T> {
+  initialValue: T;
+  normalize: (stored: T) => T;
+  persist: boolean;
+}
+
+/**
+ * An observable value that every open tab of the app shares: each change is
+ * posted on a BroadcastChannel and other tabs adopt it as their own value
+ * without posting it back.
+ */
+const createSyncedStore = <T>(key: string, { initialValue, normalize, persist }: StoreOptions<T>): PersistentStore<T> => {
+  let value = persist ? normalize(readStoredValue(key, initialValue)) : initialValue;
+  const listeners = new Set<Listener>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const get = () => value;
+
+  const set = (next: T | ((prev: T) => T)) => {
+    value = typeof next === 'function' ? (next as (prev: T) => T)(value) : next;
+    if (persist) writeStoredValue(key, value);
+    const message: StoreMessage = { key, value };
+    getChannel()?.postMessage(message);
+    notify();
+  };
+
+  const restore = (stored: T) => set(normalize(stored));
+
+  const subscribe = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // The sending tab has already written to local storage, which all tabs share.
+  getChannel()?.addEventListener('message', (event: MessageEvent<StoreMessage>) => {
+    if (event.data?.key !== key) return;
+    value = normalize(event.data.value as T);
+    notify();
+  });
+
+  return { get, set, restore, subscribe };
+};
+
+/**
+ * A tiny observable value that is mirrored to localStorage and kept in sync
+ * between tabs, so state can live outside of any one view component and
+ * survive reloads and view switches. `normalize` fixes up stored values
+ * written by older versions of the app, e.g. by filling in newly added fields.
+ */
+export const createPersistentStore = <T>(
+  key: string,
+  initialValue: T,
+  normalize: (stored: T) => T = stored => stored
+): PersistentStore<T> => createSyncedStore(key, { initialValue, normalize, persist: true });
+
+/**
+ * Like `createPersistentStore`, but only kept in memory: for state such as
+ * what is ringing right now, which other tabs should follow but a reload
+ * should forget.
+ */
+export const createSharedStore = <T>(key: string, initialValue: T): PersistentStore<T> =>
+  createSyncedStore(key, { initialValue, normalize: stored => stored, persist: false });
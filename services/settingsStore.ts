@@ -0,0 +1,73 @@
+import { DeviceOrientation, Settings, SoundSettings, ToolId, WeatherAlertSettings } from '../types';
+import { isToolId } from '../toolIds';
+import { createPersistentStore } from './persistentStore';
+import { DEFAULT_ALARM_SOUND_ID, DEFAULT_TIMER_SOUND_ID } from './soundLibrary';
+
+const prefersImperial = () => ['en-US', 'en-LR', 'my-MM'].includes(navigator.language);
+
+const prefers12HourClock = () =>
+  new Intl.DateTimeFormat(navigator.language, { hour: 'numeric' }).resolvedOptions().hour12 ?? false;
+
+export const DEFAULT_SETTINGS: Settings = {
+  temperatureUnit: prefersImperial() ? 'fahrenheit' : 'celsius',
+  windSpeedUnit: prefersImperial() ? 'mph' : 'kmh',
+  clockFormat: prefers12HourClock() ? '12h' : '24h',
+  navigationMode: 'manual',
+  orientationTools: {
+    'portrait-primary': 'alarm',
+    'landscape-primary': 'stopwatch',
+    'portrait-secondary': 'timer',
+    'landscape-secondary': 'weather',
+  },
+  weatherAlerts: {
+    backgroundCheck: false,
+    frostBelowC: 0,
+    heatAboveC: 35,
+    windAboveKmh: null,
+    rainChanceAbove: null,
+  },
+  sounds: {
+    alarmSoundId: DEFAULT_ALARM_SOUND_ID,
+    timerSoundId: DEFAULT_TIMER_SOUND_ID,
+    volume: 0.8,
+    rampSeconds: 30,
+    vibrate: true,
+  },
+  locale: null,
+  weatherBriefing: false,
+};
+
+// Tool ids that no longer exist (or never did, in a hand-edited backup) fall back to the default tool.
+const knownOrientationTools = (tools: Partial<Record<DeviceOrientation, unknown>> = {}) =>
+  Object.fromEntries(Object.entries(tools).filter(([, tool]) => isToolId(tool))) as Partial<Record<DeviceOrientation, ToolId>>;
+
+export const settingsStore = createPersistentStore<Settings>(
+  'orientation-sense:settings',
+  DEFAULT_SETTINGS,
+  stored => ({
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    orientationTools: { ...DEFAULT_SETTINGS.orientationTools, ...knownOrientationTools(stored.orientationTools) },
+    weatherAlerts: { ...DEFAULT_SETTINGS.weatherAlerts, ...stored.weatherAlerts },
+    sounds: { ...DEFAULT_SETTINGS.sounds, ...stored.sounds },
+  })
+);
+
+export const updateSettings = (changes: Partial<Settings>) => {
+  settingsStore.set(settings => ({ ...settings, ...changes }));
+};
+
+export const updateWeatherAlertSettings = (changes: Partial<WeatherAlertSettings>) => {
+  settingsStore.set(settings => ({ ...settings, weatherAlerts: { ...settings.weatherAlerts, ...changes } }));
+};
+
+export const updateSoundSettings = (changes: Partial<SoundSettings>) => {
+  settingsStore.set(settings => ({ ...settings, sounds: { ...settings.sounds, ...changes } }));
+};
+
+export const setOrientationTool = (orientation: DeviceOrientation, tool: ToolId) => {
+  settingsStore.set(settings => ({
+    ...settings,
+    orientationTools: { ...settings.orientationTools, [orientation]: tool },
+  }));
+};
@@ -0,0 +1,90 @@
+// Low-level Web Audio playback: one shared context, decoding, volume ramps and vibration.
+
+export interface PlaybackOptions {
+  volume: number; // 0 to 1
+  loop?: boolean;
+  rampSeconds?: number; // fade in from near silence to `volume`
+  onEnded?: () => void; // when playback finishes by itself or is stopped
+}
+
+export interface SoundHandle {
+  stop: () => void;
+}
+
+const RAMP_START_GAIN = 0.02;
+
+let context: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext => {
+  context ??= new AudioContext();
+  return context;
+};
+
+/**
+ * Browsers keep an audio context suspended until the page sees a user
+ * gesture. Resuming it on the first tap lets alarms ring later without one.
+ */
+export const installAudioUnlock = () => {
+  const unlock = () => {
+    getAudioContext().resume().catch(error => console.warn('Could not start audio:', error));
+    window.removeEventListener('pointerdown', unlock);
+    window.removeEventListener('keydown', unlock);
+  };
+  window.addEventListener('pointerdown', unlock);
+  window.addEventListener('keydown', unlock);
+};
+
+export const decodeAudio = (data: ArrayBuffer): Promise<AudioBuffer> => getAudioContext().decodeAudioData(data);
+
+export const playBuffer = (buffer: AudioBuffer, { volume, loop = false, rampSeconds = 0, onEnded }: PlaybackOptions): SoundHandle => {
+  const audioContext = getAudioContext();
+  if (audioContext.state === 'suspended') audioContext.resume().catch(() => {});
+
+  const gain = audioContext.createGain();
+  const now = audioContext.currentTime;
+  if (rampSeconds > 0) {
+    gain.gain.setValueAtTime(RAMP_START_GAIN * volume, now);
+    gain.gain.linearRampToValueAtTime(volume, now + rampSeconds);
+  } else {
+    gain.gain.setValueAtTime(volume, now);
+  }
+  gain.connect(audioContext.destination);
+
+  const source = audioContext.createBufferSource();
+  source.buffer = buffer;
+  source.loop = loop;
+  source.connect(gain);
+  source.onended = () => {
+    gain.disconnect();
+    onEnded?.();
+  };
+  source.start();
+
+  return {
+    stop: () => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped.
+      }
+    },
+  };
+};
+
+export const VIBRATION_PATTERNS = {
+  ALARM: [600, 300, 600, 300, 600, 1200],
+  TIMER: [300, 150, 300, 150, 300, 900],
+  ALERT: [200, 100, 200],
+};
+
+/** Vibrates with `pattern`, repeating it until the returned function is called. No-op where unsupported. */
+export const startVibration = (pattern: number[], repeat: boolean): (() => void) => {
+  if (typeof navigator.vibrate !== 'function') return () => {};
+  navigator.vibrate(pattern);
+  const periodMs = pattern.reduce((total, step) => total + step, 0);
+  const intervalId = repeat ? setInterval(() => navigator.vibrate(pattern), periodMs) : null;
+  return () => {
+    if (intervalId !== null) clearInterval(intervalId);
+    navigator.vibrate(0);
+  };
+};
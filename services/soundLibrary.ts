@@ -0,0 +1,140 @@
+import { CustomSound } from '../types';
+import { SOUNDS } from '../constants';
+import { MessageKey } from '../locales/en';
+import { SoundError } from './errors';
+import { createPersistentStore } from './persistentStore';
+import { putSoundBlob, getSoundBlob, deleteSoundBlob } from './soundStorage';
+import { SoundHandle, decodeAudio, playBuffer, startVibration } from './soundEngine';
+
+export const MAX_CUSTOM_SOUND_BYTES = 5 * 1024 * 1024;
+
+export interface SoundOption {
+  id: string;
+  name: string;
+}
+
+export const BUNDLED_SOUNDS: { id: string; nameKey: MessageKey; url: string }[] = [
+  { id: 'bundled:alarm', nameKey: 'sound.classicAlarm', url: SOUNDS.ALARM },
+  { id: 'bundled:timer', nameKey: 'sound.chime', url: SOUNDS.TIMER },
+  { id: 'bundled:stage-work', nameKey: 'sound.bell', url: SOUNDS.STAGE_WORK },
+  { id: 'bundled:stage-rest', nameKey: 'sound.softTone', url: SOUNDS.STAGE_REST },
+];
+
+export const DEFAULT_ALARM_SOUND_ID = 'bundled:alarm';
+export const DEFAULT_TIMER_SOUND_ID = 'bundled:timer';
+
+// Only metadata is kept here; the audio itself is in IndexedDB (see soundStorage).
+export const customSoundStore = createPersistentStore<CustomSound[]>('orientation-sense:custom-sounds', []);
+
+/** Bundled sounds are named with `translate`; custom ones keep the name they were uploaded with. */
+export const getSoundOptions = (custom: CustomSound[], translate: (key: MessageKey) => string): SoundOption[] => [
+  ...BUNDLED_SOUNDS.map(({ id, nameKey }) => ({ id, name: translate(nameKey) })),
+  ...custom.map(({ id, name }) => ({ id, name })),
+];
+
+const bufferCache = new Map<string, Promise<AudioBuffer>>();
+
+const readSoundData = async (id: string): Promise<ArrayBuffer> => {
+  const bundled = BUNDLED_SOUNDS.find(sound => sound.id === id);
+  if (bundled) {
+    const response = await fetch(bundled.url);
+    if (!response.ok) throw new Error(`Could not load ${bundled.url} (${response.status})`);
+    return response.arrayBuffer();
+  }
+  const blob = await getSoundBlob(id);
+  if (!blob) throw new Error(`Sound ${id} is not stored on this device`);
+  return blob.arrayBuffer();
+};
+
+/** Decodes a sound once and reuses it; a missing or broken sound falls back to `fallbackId`. */
+const loadSound = async (id: string, fallbackId: string): Promise<AudioBuffer> => {
+  let pending = bufferCache.get(id);
+  if (!pending) {
+    pending = readSoundData(id).then(decodeAudio);
+    bufferCache.set(id, pending);
+  }
+  try {
+    return await pending;
+  } catch (error) {
+    bufferCache.delete(id);
+    if (id === fallbackId) throw error;
+    console.warn(`Could not load sound ${id}, using ${fallbackId} instead:`, error);
+    return loadSound(fallbackId, fallbackId);
+  }
+};
+
+export interface RingerOptions {
+  soundId: string;
+  fallbackId: string;
+  volume: number;
+  loop: boolean;
+  rampSeconds?: number;
+  vibration?: number[] | null;
+  onEnded?: () => void; // also called when the sound cannot be played at all
+}
+
+/**
+ * Starts a sound (and optionally vibration) right away and returns a handle
+ * that stops both, even if called before the sound has finished loading.
+ */
+export const startRinger = ({ soundId, fallbackId, volume, loop, rampSeconds = 0, vibration = null, onEnded }: RingerOptions): SoundHandle => {
+  let stopped = false;
+  let playback: SoundHandle | null = null;
+  const stopVibration = vibration ? startVibration(vibration, loop) : () => {};
+
+  loadSound(soundId, fallbackId)
+    .then(buffer => {
+      if (!stopped) playback = playBuffer(buffer, { volume, loop, rampSeconds, onEnded });
+    })
+    .catch(error => {
+      console.warn('Could not play sound:', error);
+      onEnded?.();
+    });
+
+  return {
+    stop: () => {
+      stopped = true;
+      playback?.stop();
+      stopVibration();
+    },
+  };
+};
+
+export const playSound = (soundId: string, volume: number, onEnded?: () => void): SoundHandle =>
+  startRinger({ soundId, fallbackId: soundId, volume, loop: false, onEnded });
+
+/** Stores an uploaded audio file after checking that the browser can play it. */
+export const addCustomSound = async (file: File): Promise<CustomSound> => {
+  if (file.size > MAX_CUSTOM_SOUND_BYTES) {
+    throw new SoundError('too-large', `"${file.name}" is larger than ${MAX_CUSTOM_SOUND_BYTES / 1024 / 1024} MB.`);
+  }
+  try {
+    await decodeAudio(await file.arrayBuffer());
+  } catch (error) {
+    throw new SoundError('unsupported', `"${file.name}" is not an audio file this browser can play.`, { cause: error });
+  }
+
+  const sound: CustomSound = {
+    id: `custom:${crypto.randomUUID()}`,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    type: file.type,
+    size: file.size,
+  };
+  try {
+    await putSoundBlob(sound.id, file);
+  } catch (error) {
+    throw new SoundError('storage', 'Could not save the sound on this device.', { cause: error });
+  }
+  customSoundStore.set(sounds => [...sounds, sound]);
+  return sound;
+};
+
+export const removeCustomSound = async (id: string) => {
+  customSoundStore.set(sounds => sounds.filter(sound => sound.id !== id));
+  bufferCache.delete(id);
+  try {
+    await deleteSoundBlob(id);
+  } catch (error) {
+    console.warn(`Could not delete sound ${id}:`, error);
+  }
+};
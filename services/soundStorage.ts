@@ -0,0 +1,29 @@
+// Uploaded sounds are too large for localStorage, so their audio lives in IndexedDB.
+const DB_NAME = 'orientation-sense';
+const DB_VERSION = 1;
+const SOUND_STORE = 'sounds';
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(SOUND_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(SOUND_STORE, mode);
+    const request = makeRequest(transaction.objectStore(SOUND_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => db.close();
+  });
+};
+
+export const putSoundBlob = (id: string, blob: Blob) => runRequest('readwrite', store => store.put(blob, id));
+
+export const getSoundBlob = (id: string) => runRequest<Blob | undefined>('readonly', store => store.get(id));
+
+export const deleteSoundBlob = (id: string) => runRequest('readwrite', store => store.delete(id));
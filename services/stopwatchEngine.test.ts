@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StopwatchState } from '../types';
+import { START, fakeClock, lateScheduler, useFakeTime } from '../test/fakeClock';
+import { createTicker } from './clock';
+import {
+  INITIAL_STOPWATCH_STATE,
+  getElapsed,
+  isStopwatchRunning,
+  lapStopwatchState,
+  startStopwatchState,
+  stopStopwatchState,
+} from './stopwatchEngine';
+
+useFakeTime();
+
+describe('stopwatch engine', () => {
+  it('keeps the elapsed time across a pause and resume', () => {
+    let state = startStopwatchState(INITIAL_STOPWATCH_STATE, fakeClock.now());
+    vi.advanceTimersByTime(12_340);
+    state = stopStopwatchState(state, fakeClock.now());
+
+    // Time spent paused does not count.
+    vi.advanceTimersByTime(60_000);
+    expect(isStopwatchRunning(state)).toBe(false);
+    expect(getElapsed(state, fakeClock.now())).toBe(12_340);
+
+    state = startStopwatchState(state, fakeClock.now());
+    vi.advanceTimersByTime(1_000);
+    expect(getElapsed(state, fakeClock.now())).toBe(13_340);
+    expect(state.sessionStartedAt).toBe(START);
+  });
+
+  it('ignores starting twice and stopping or lapping while stopped', () => {
+    const running = startStopwatchState(INITIAL_STOPWATCH_STATE, START);
+    expect(startStopwatchState(running, START + 5000)).toBe(running);
+    expect(stopStopwatchState(INITIAL_STOPWATCH_STATE, START)).toBe(INITIAL_STOPWATCH_STATE);
+    expect(lapStopwatchState(INITIAL_STOPWATCH_STATE, START)).toBe(INITIAL_STOPWATCH_STATE);
+  });
+
+  it('records laps as cumulative splits that include earlier runs', () => {
+    let state = startStopwatchState(INITIAL_STOPWATCH_STATE, START);
+    state = lapStopwatchState(state, START + 1_000);
+    state = stopStopwatchState(state, START + 1_500);
+    state = startStopwatchState(state, START + 10_000);
+    state = lapStopwatchState(state, START + 10_700);
+
+    expect(state.laps).toEqual([1_000, 2_200]);
+  });
+
+  it('reads the clock rather than counting ticks, so late ticks cause no drift', () => {
+    let state: StopwatchState = startStopwatchState(INITIAL_STOPWATCH_STATE, fakeClock.now());
+    let displayed = 0;
+    const ticker = createTicker({
+      intervalMs: 10,
+      onTick: now => { displayed = getElapsed(state, now); },
+      clock: fakeClock,
+      scheduler: lateScheduler(23),
+    });
+
+    ticker.start();
+    vi.advanceTimersByTime(30 * 60_000);
+    state = stopStopwatchState(state, fakeClock.now());
+    ticker.stop();
+
+    expect(getElapsed(state)).toBe(30 * 60_000);
+    expect(30 * 60_000 - displayed).toBeLessThan(10 + 23);
+  });
+});
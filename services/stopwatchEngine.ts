@@ -0,0 +1,22 @@
+import { StopwatchState } from '../types';
+
+export const INITIAL_STOPWATCH_STATE: StopwatchState = {
+  startedAt: null,
+  accumulatedMs: 0,
+  laps: [],
+  sessionStartedAt: null,
+};
+
+export const isStopwatchRunning = (state: StopwatchState) => state.startedAt !== null;
+
+export const getElapsed = (state: StopwatchState, now = Date.now()) =>
+  state.accumulatedMs + (state.startedAt === null ? 0 : now - state.startedAt);
+
+export const startStopwatchState = (state: StopwatchState, now = Date.now()): StopwatchState =>
+  state.startedAt !== null ? state : { ...state, startedAt: now, sessionStartedAt: state.sessionStartedAt ?? now };
+
+export const stopStopwatchState = (state: StopwatchState, now = Date.now()): StopwatchState =>
+  state.startedAt === null ? state : { ...state, startedAt: null, accumulatedMs: getElapsed(state, now) };
+
+export const lapStopwatchState = (state: StopwatchState, now = Date.now()): StopwatchState =>
+  state.startedAt === null ? state : { ...state, laps: [...state.laps, getElapsed(state, now)] };
@@ -0,0 +1,48 @@
+import { StopwatchSession, StopwatchState } from '../types';
+import { INITIAL_STOPWATCH_STATE, getElapsed, startStopwatchState, stopStopwatchState, lapStopwatchState } from './stopwatchEngine';
+import { createPersistentStore } from './persistentStore';
+
+const MAX_SESSIONS = 50;
+
+// The start timestamp is persisted rather than a ticking counter, so elapsed
+// time keeps accruing across reloads and view switches.
+export const stopwatchStore = createPersistentStore<StopwatchState>('orientation-sense:stopwatch', INITIAL_STOPWATCH_STATE);
+
+export const stopwatchHistoryStore = createPersistentStore<StopwatchSession[]>('orientation-sense:stopwatch-history', []);
+
+export const startStopwatch = (now = Date.now()) => {
+  stopwatchStore.set(state => startStopwatchState(state, now));
+};
+
+export const stopStopwatch = (now = Date.now()) => {
+  stopwatchStore.set(state => stopStopwatchState(state, now));
+};
+
+export const lapStopwatch = (now = Date.now()) => {
+  stopwatchStore.set(state => lapStopwatchState(state, now));
+};
+
+/** Clears the stopwatch, archiving the finished session to the history list. */
+export const resetStopwatch = (now = Date.now()) => {
+  const state = stopwatchStore.get();
+  const totalMs = getElapsed(state, now);
+  if (totalMs > 0 && state.sessionStartedAt !== null) {
+    const session: StopwatchSession = {
+      id: crypto.randomUUID(),
+      startedAt: state.sessionStartedAt,
+      endedAt: now,
+      totalMs,
+      laps: state.laps,
+    };
+    stopwatchHistoryStore.set(sessions => [session, ...sessions].slice(0, MAX_SESSIONS));
+  }
+  stopwatchStore.set(INITIAL_STOPWATCH_STATE);
+};
+
+export const deleteStopwatchSession = (id: string) => {
+  stopwatchHistoryStore.set(sessions => sessions.filter(session => session.id !== id));
+};
+
+export const clearStopwatchHistory = () => {
+  stopwatchHistoryStore.set([]);
+};
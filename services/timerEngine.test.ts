@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TimerProgram, TimerRun } from '../types';
+import { START, fakeClock, lateScheduler, useFakeTime } from '../test/fakeClock';
+import { FrameScheduler, createTicker } from './clock';
+import {
+  TimerTransition,
+  advanceRun,
+  createCountdown,
+  createRun,
+  getCurrentStep,
+  getRemainingMs,
+  getTotalDurationMs,
+  pauseCountdown,
+  pauseRun,
+  startCountdown,
+  startRun,
+} from './timerEngine';
+
+// 30 s of work and 10 s of rest, three times: 2 minutes in all.
+const INTERVALS: TimerProgram = {
+  id: 'intervals',
+  name: 'Intervals',
+  stages: [
+    { label: 'Work', kind: 'work', durationSeconds: 30 },
+    { label: 'Rest', kind: 'rest', durationSeconds: 10 },
+  ],
+  rounds: 3,
+};
+
+/** Runs the program on a ticker, the way the timer monitor does, collecting every transition. */
+const runOnTicker = (program: TimerProgram, scheduler: FrameScheduler, durationMs: number) => {
+  let run: TimerRun = startRun(createRun(program), fakeClock.now());
+  const transitions: { at: number; transition: TimerTransition }[] = [];
+  const ticker = createTicker({
+    intervalMs: 1000,
+    onTick: now => {
+      const advanced = advanceRun(run, now);
+      run = advanced.run;
+      transitions.push(...advanced.transitions.map(transition => ({ at: now, transition })));
+    },
+    clock: fakeClock,
+    scheduler,
+  });
+
+  ticker.start();
+  vi.advanceTimersByTime(durationMs);
+  ticker.stop();
+  return { run, transitions };
+};
+
+useFakeTime();
+
+describe('countdown', () => {
+  it('keeps the remaining time across a pause and resume', () => {
+    let countdown = startCountdown(createCountdown(60_000), fakeClock.now());
+    vi.advanceTimersByTime(20_000);
+    countdown = pauseCountdown(countdown, fakeClock.now());
+
+    vi.advanceTimersByTime(5 * 60_000);
+    expect(getRemainingMs(countdown, fakeClock.now())).toBe(40_000);
+
+    countdown = startCountdown(countdown, fakeClock.now());
+    vi.advanceTimersByTime(15_000);
+    expect(getRemainingMs(countdown, fakeClock.now())).toBe(25_000);
+    expect(countdown.endsAt).toBe(START + 20_000 + 5 * 60_000 + 40_000);
+  });
+
+  it('never reads below zero', () => {
+    const countdown = startCountdown(createCountdown(1000), START);
+    expect(getRemainingMs(countdown, START + 10_000)).toBe(0);
+  });
+});
+
+describe('timer programs', () => {
+  it('advances through every stage and round in order', () => {
+    const { transitions } = runOnTicker(INTERVALS, lateScheduler(0), getTotalDurationMs(INTERVALS));
+
+    expect(transitions.map(({ at, transition }) => [
+      (at - START) / 1000,
+      transition.type === 'stage' ? `${transition.step.label} ${transition.step.round}` : 'complete',
+    ])).toEqual([
+      [30, 'Rest 1'],
+      [40, 'Work 2'],
+      [70, 'Rest 2'],
+      [80, 'Work 3'],
+      [110, 'Rest 3'],
+      [120, 'complete'],
+    ]);
+  });
+
+  it('completes exactly once, however long it keeps being ticked', () => {
+    const { run, transitions } = runOnTicker(INTERVALS, lateScheduler(0), 10 * 60_000);
+
+    expect(transitions.filter(({ transition }) => transition.type === 'complete')).toHaveLength(1);
+    expect(run.finished).toBe(true);
+    expect(advanceRun(run, START + 60 * 60_000).transitions).toEqual([]);
+  });
+
+  it('keeps later stages on schedule when a background tab misses them', () => {
+    let run = startRun(createRun(INTERVALS), START);
+
+    // A single check 95 s in, after a throttled tab slept through two stage changes.
+    const advanced = advanceRun(run, START + 95_000);
+    run = advanced.run;
+
+    expect(advanced.transitions.map(transition => transition.type)).toEqual(['stage', 'stage', 'stage', 'stage']);
+    expect(getCurrentStep(run)).toMatchObject({ label: 'Work', round: 3 });
+    // Each step was started from the previous one's end, not from the late check.
+    expect(run.countdown.endsAt).toBe(START + 110_000);
+  });
+
+  it('does not drift when every tick arrives late', () => {
+    const { transitions } = runOnTicker(INTERVALS, lateScheduler(250), getTotalDurationMs(INTERVALS) + 1000);
+
+    // Each transition is seen on the first late tick after its boundary, never a tick later.
+    expect(transitions.map(({ at }) => (at - START) / 1000)).toEqual([30.25, 40.25, 70.25, 80.25, 110.25, 120.25]);
+  });
+
+  it('pauses mid-stage and resumes where it left off', () => {
+    let run = startRun(createRun(INTERVALS), START);
+    run = pauseRun(advanceRun(run, START + 35_000).run, START + 35_000);
+
+    const afterPause = advanceRun(run, START + 60 * 60_000);
+    expect(afterPause.transitions).toEqual([]);
+    expect(getRemainingMs(afterPause.run.countdown)).toBe(5_000);
+
+    run = startRun(afterPause.run, START + 60 * 60_000);
+    const resumed = advanceRun(run, START + 60 * 60_000 + 5_000);
+    expect(getCurrentStep(resumed.run)).toMatchObject({ label: 'Work', round: 2 });
+  });
+
+  it('restarts a finished run from the first step', () => {
+    const finished = advanceRun(startRun(createRun(INTERVALS), START), START + getTotalDurationMs(INTERVALS)).run;
+    const restarted = startRun(finished, START + 200_000);
+
+    expect(restarted.finished).toBe(false);
+    expect(restarted.stepIndex).toBe(0);
+    expect(restarted.countdown.endsAt).toBe(START + 230_000);
+  });
+});
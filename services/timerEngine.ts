@@ -0,0 +1,102 @@
+import { Countdown, TimerProgram, TimerRun, TimerStage } from '../types';
+
+// --- Countdown: the end-time based countdown the timer view has always used ---
+
+export const createCountdown = (durationMs: number): Countdown => ({
+  durationMs,
+  remainingMs: durationMs,
+  endsAt: null,
+});
+
+export const isCountdownRunning = (countdown: Countdown) => countdown.endsAt !== null;
+
+export const getRemainingMs = (countdown: Countdown, now = Date.now()) =>
+  countdown.endsAt === null ? countdown.remainingMs : Math.max(countdown.endsAt - now, 0);
+
+export const startCountdown = (countdown: Countdown, now = Date.now()): Countdown =>
+  countdown.endsAt !== null || countdown.remainingMs <= 0 ? countdown : { ...countdown, endsAt: now + countdown.remainingMs };
+
+export const pauseCountdown = (countdown: Countdown, now = Date.now()): Countdown =>
+  countdown.endsAt === null ? countdown : { ...countdown, remainingMs: getRemainingMs(countdown, now), endsAt: null };
+
+// --- Programs: sequences of stages run on top of the countdown ---
+
+export interface TimerStep extends TimerStage {
+  round: number; // 1-based
+}
+
+export type TimerTransition =
+  | { type: 'stage'; step: TimerStep }
+  | { type: 'complete' };
+
+/** Expands a program's stages and rounds into the flat list of steps it runs through. */
+export const getSteps = (program: TimerProgram): TimerStep[] =>
+  Array.from({ length: program.rounds }, (_, round) =>
+    program.stages.map(stage => ({ ...stage, round: round + 1 }))
+  ).flat();
+
+export const getTotalDurationMs = (program: TimerProgram) =>
+  getSteps(program).reduce((total, step) => total + step.durationSeconds * 1000, 0);
+
+const countdownForStep = (program: TimerProgram, stepIndex: number) =>
+  createCountdown(getSteps(program)[stepIndex].durationSeconds * 1000);
+
+export const createRun = (program: TimerProgram): TimerRun => ({
+  program,
+  stepIndex: 0,
+  countdown: countdownForStep(program, 0),
+  finished: false,
+});
+
+export const getCurrentStep = (run: TimerRun): TimerStep => getSteps(run.program)[run.stepIndex];
+
+export const startRun = (run: TimerRun, now = Date.now()): TimerRun =>
+  run.finished ? startRun(createRun(run.program), now) : { ...run, countdown: startCountdown(run.countdown, now) };
+
+export const pauseRun = (run: TimerRun, now = Date.now()): TimerRun =>
+  ({ ...run, countdown: pauseCountdown(run.countdown, now) });
+
+/**
+ * Moves past every step that has finished by `now`. Each following step is
+ * started from the previous step's end time rather than from `now`, so a late
+ * tick (or a tab woken from the background) does not stretch the program.
+ */
+export const advanceRun = (run: TimerRun, now = Date.now()): { run: TimerRun; transitions: TimerTransition[] } => {
+  const steps = getSteps(run.program);
+  const transitions: TimerTransition[] = [];
+  let current = run;
+
+  while (!current.finished && current.countdown.endsAt !== null && current.countdown.endsAt <= now) {
+    const endedAt = current.countdown.endsAt;
+    const nextIndex = current.stepIndex + 1;
+    if (nextIndex >= steps.length) {
+      current = { ...current, finished: true, countdown: { ...current.countdown, remainingMs: 0, endsAt: null } };
+      transitions.push({ type: 'complete' });
+    } else {
+      current = { ...current, stepIndex: nextIndex, countdown: startCountdown(countdownForStep(current.program, nextIndex), endedAt) };
+      transitions.push({ type: 'stage', step: steps[nextIndex] });
+    }
+  }
+
+  return { run: current, transitions };
+};
+
+/** Jumps to another step, keeping the run paused or running as it was. */
+export const goToStep = (run: TimerRun, stepIndex: number, now = Date.now()): TimerRun => {
+  const clamped = Math.min(Math.max(stepIndex, 0), getSteps(run.program).length - 1);
+  const countdown = countdownForStep(run.program, clamped);
+  return {
+    ...run,
+    stepIndex: clamped,
+    finished: false,
+    countdown: isCountdownRunning(run.countdown) ? startCountdown(countdown, now) : countdown,
+  };
+};
+
+export const skipStep = (run: TimerRun, now = Date.now()) => goToStep(run, run.stepIndex + 1, now);
+
+/** Restarts the current step, or goes to the previous one if the current step has barely begun. */
+export const previousStep = (run: TimerRun, now = Date.now()): TimerRun => {
+  const elapsedMs = run.countdown.durationMs - getRemainingMs(run.countdown, now);
+  return goToStep(run, elapsedMs > 3000 ? run.stepIndex : run.stepIndex - 1, now);
+};
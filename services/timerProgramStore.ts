@@ -0,0 +1,49 @@
+import { TimerProgram } from '../types';
+import { createPersistentStore } from './persistentStore';
+import { t } from './i18n';
+
+// Named in the app's language at load; the names are only stored, and so kept, once the list is first changed.
+const getDefaultPrograms = (): TimerProgram[] => [
+  {
+    id: 'pomodoro',
+    name: t('timerProgram.pomodoro'),
+    stages: [
+      { label: t('timerProgram.focus'), kind: 'work', durationSeconds: 25 * 60 },
+      { label: t('timerProgram.break'), kind: 'rest', durationSeconds: 5 * 60 },
+    ],
+    rounds: 4,
+  },
+  {
+    id: 'hiit',
+    name: t('timerProgram.hiit'),
+    stages: [
+      { label: t('timerProgram.on'), kind: 'work', durationSeconds: 40 },
+      { label: t('timerProgram.off'), kind: 'rest', durationSeconds: 20 },
+    ],
+    rounds: 8,
+  },
+];
+
+export const timerProgramStore = createPersistentStore<TimerProgram[]>('orientation-sense:timer-programs', getDefaultPrograms());
+
+export const saveTimerProgram = (program: Omit<TimerProgram, 'id'> & { id?: string }): TimerProgram => {
+  const saved: TimerProgram = { ...program, id: program.id ?? crypto.randomUUID() };
+  timerProgramStore.set(programs =>
+    programs.some(existing => existing.id === saved.id)
+      ? programs.map(existing => (existing.id === saved.id ? saved : existing))
+      : [...programs, saved]
+  );
+  return saved;
+};
+
+export const deleteTimerProgram = (id: string) => {
+  timerProgramStore.set(programs => programs.filter(program => program.id !== id));
+};
+
+/** An unsaved single-stage program, used for plain countdowns. */
+export const createSimpleProgram = (durationSeconds: number, label = t('timer.defaultLabel')): TimerProgram => ({
+  id: `simple-${durationSeconds}`,
+  name: label,
+  stages: [{ label, kind: 'work', durationSeconds }],
+  rounds: 1,
+});
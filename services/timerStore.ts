@@ -0,0 +1,54 @@
+import { Timer, TimerProgram, TimerRun } from '../types';
+import { TimerTransition, advanceRun, createRun, previousStep, pauseRun, skipStep, startRun } from './timerEngine';
+import { createPersistentStore, createSharedStore } from './persistentStore';
+
+// Runs are stored with their wall-clock end times, so timers keep counting
+// while another view is showing and across reloads.
+export const timerStore = createPersistentStore<Timer[]>('orientation-sense:timers', []);
+
+/** Ids of finished timers that are still ringing, shared between tabs like `ringingAlarmStore`. */
+export const ringingTimerStore = createSharedStore<string[]>('orientation-sense:ringing-timers', []);
+
+const updateRun = (id: string, update: (run: TimerRun) => TimerRun) => {
+  timerStore.set(timers => timers.map(timer => (timer.id === id ? { ...timer, run: update(timer.run) } : timer)));
+};
+
+export const addTimer = (program: TimerProgram, label = program.name, now = Date.now()): Timer => {
+  const timer: Timer = { id: crypto.randomUUID(), label, run: startRun(createRun(program), now) };
+  timerStore.set(timers => [...timers, timer]);
+  return timer;
+};
+
+export const removeTimer = (id: string) => {
+  timerStore.set(timers => timers.filter(timer => timer.id !== id));
+};
+
+export const startTimer = (id: string, now = Date.now()) => updateRun(id, run => startRun(run, now));
+
+export const pauseTimer = (id: string, now = Date.now()) => updateRun(id, run => pauseRun(run, now));
+
+export const resetTimer = (id: string) => updateRun(id, run => createRun(run.program));
+
+export const restartTimer = (id: string, now = Date.now()) => updateRun(id, run => startRun(createRun(run.program), now));
+
+export const skipTimerStep = (id: string, now = Date.now()) => updateRun(id, run => skipStep(run, now));
+
+export const previousTimerStep = (id: string, now = Date.now()) => updateRun(id, run => previousStep(run, now));
+
+/**
+ * Advances every running timer to `now` and returns the latest transition of
+ * each timer that changed. Several steps can elapse at once after the tab
+ * sleeps; only the most recent one is worth announcing.
+ */
+export const advanceTimers = (now = Date.now()): { timer: Timer; transition: TimerTransition }[] => {
+  const changed: { timer: Timer; transition: TimerTransition }[] = [];
+  const timers = timerStore.get().map(timer => {
+    const { run, transitions } = advanceRun(timer.run, now);
+    if (transitions.length === 0) return timer;
+    const advanced = { ...timer, run };
+    changed.push({ timer: advanced, transition: transitions[transitions.length - 1] });
+    return advanced;
+  });
+  if (changed.length > 0) timerStore.set(timers);
+  return changed;
+};
@@ -0,0 +1,47 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { WeatherAlertSettings, WeatherResult } from '../types';
+import { evaluateWeatherThresholds } from './weatherAlerts';
+import { resolveLocale } from './i18n';
+
+const hour = (time: string, temperature: number, precipitationChance: number) =>
+  ({ time, temperature, condition: 'Clear', icon: '☀️', precipitationChance });
+
+const RESULT: WeatherResult = {
+  weatherData: { city: 'Oslo', temperature: 1, condition: 'Clear', humidity: 80, windSpeed: 60, icon: '☀️' },
+  forecast: {
+    hourly: [hour('2025-01-06T09:00', 1, 10), hour('2025-01-06T10:00', -3, 20), hour('2025-01-06T11:00', -1, 90)],
+    daily: [],
+  },
+  alerts: [],
+  sources: [],
+};
+
+const THRESHOLDS: WeatherAlertSettings = { backgroundCheck: false, frostBelowC: 0, heatAboveC: 35, windAboveKmh: 50, rainChanceAbove: 70 };
+
+const describeValues = {
+  temperature: (celsius: number) => `${celsius}°C`,
+  windSpeed: (kmh: number) => `${kmh} km/h`,
+  time: (hourTime: string) => hourTime.slice(11, 16),
+};
+
+describe('evaluateWeatherThresholds', () => {
+  it('raises an alert for each threshold the forecast crosses, from the first hour that crosses it', () => {
+    const alerts = evaluateWeatherThresholds(RESULT, THRESHOLDS, resolveLocale('en'), describeValues);
+
+    expect(alerts.map(alert => [alert.kind, alert.title, alert.startsAt])).toEqual([
+      ['frost', 'Frost expected', '2025-01-06T10:00'],
+      ['rain', 'Rain likely', '2025-01-06T11:00'],
+      ['wind', 'Strong wind', '2025-01-06T09:00'],
+    ]);
+    expect(alerts[0].description).toBe('-3°C at 10:00, below your 0°C threshold.');
+  });
+
+  it('keeps the same ids in every language, so switching language does not notify again', () => {
+    const english = evaluateWeatherThresholds(RESULT, THRESHOLDS, resolveLocale('en'), describeValues);
+    const spanish = evaluateWeatherThresholds(RESULT, THRESHOLDS, resolveLocale('es'), describeValues);
+
+    expect(spanish.map(alert => alert.title)).not.toEqual(english.map(alert => alert.title));
+    expect(spanish.map(alert => alert.id)).toEqual(english.map(alert => alert.id));
+  });
+});
@@ -0,0 +1,133 @@
+import { HourlyForecast, Settings, WeatherAlert, WeatherAlertKind, WeatherAlertSettings, WeatherAlertSeverity, WeatherResult } from '../types';
+import { formatTemperature, formatTimeOfDay, formatWindSpeed } from '../utils/units';
+import { createPersistentStore } from './persistentStore';
+import { ActiveLocale, resolveLocale, translate } from './i18n';
+
+export const WEATHER_ALERT_KINDS: WeatherAlertKind[] = ['storm', 'heat', 'frost', 'wind', 'rain', 'other'];
+export const WEATHER_ALERT_SEVERITIES: WeatherAlertSeverity[] = ['advisory', 'watch', 'warning'];
+
+/** How far ahead threshold checks look, in hourly forecast entries. */
+const LOOKAHEAD_HOURS = 24;
+const MAX_NOTIFIED_IDS = 50;
+
+export const WEATHER_ALERT_ICONS: Record<WeatherAlertKind, string> = {
+  storm: '⛈️',
+  heat: '🥵',
+  frost: '🧊',
+  wind: '💨',
+  rain: '☔',
+  other: '⚠️',
+};
+
+/**
+ * Stable id for an alert, so the same warning seen on every refresh is only
+ * notified once. `name` is the provider's title, or for alerts the app derives
+ * itself the rule or message key behind them, so the id survives a change of
+ * language. `when` is the alert's start time, or just its date for alerts
+ * derived from a forecast window whose first hour moves with every refresh.
+ */
+export const weatherAlertId = (kind: WeatherAlertKind, name: string, when: string | null) =>
+  `${kind}:${when ?? ''}:${name.toLowerCase().replace(/\s+/g, '-')}`;
+
+/** The user's thresholds, each of which is one rule. */
+type ThresholdRule = Exclude<keyof WeatherAlertSettings, 'backgroundCheck'>;
+
+interface ThresholdHit {
+  time: string;
+  value: number;
+}
+
+const firstHit = (hours: HourlyForecast[], read: (hour: HourlyForecast) => number, crosses: (value: number) => boolean): ThresholdHit | null => {
+  const hour = hours.find(candidate => crosses(read(candidate)));
+  return hour ? { time: hour.time, value: read(hour) } : null;
+};
+
+const thresholdAlert = (kind: WeatherAlertKind, rule: ThresholdRule, title: string, description: string, startsAt: string | null): WeatherAlert => ({
+  id: weatherAlertId(kind, rule, startsAt ? startsAt.slice(0, 10) : null),
+  kind,
+  severity: 'advisory',
+  title,
+  description,
+  startsAt,
+  endsAt: null,
+  source: 'threshold',
+});
+
+/**
+ * Checks a reading against the user's thresholds. Values are compared in
+ * canonical units (°C, km/h, percent); `describe` formats them for display,
+ * and the alerts are written in `locale`.
+ */
+export const evaluateWeatherThresholds = (
+  result: WeatherResult,
+  thresholds: WeatherAlertSettings,
+  locale: ActiveLocale,
+  describe: { temperature: (celsius: number) => string; windSpeed: (kmh: number) => string; time: (hourTime: string) => string }
+): WeatherAlert[] => {
+  const hours = result.forecast.hourly.slice(0, LOOKAHEAD_HOURS);
+  const alerts: WeatherAlert[] = [];
+  const { frostBelowC, heatAboveC, windAboveKmh, rainChanceAbove } = thresholds;
+
+  if (frostBelowC !== null) {
+    const hit = firstHit(hours, hour => hour.temperature, value => value < frostBelowC);
+    if (hit) {
+      alerts.push(thresholdAlert('frost', 'frostBelowC', translate(locale, 'weatherAlert.frost'), translate(locale, 'weatherAlert.frostDetail', {
+        temperature: describe.temperature(hit.value),
+        time: describe.time(hit.time),
+        threshold: describe.temperature(frostBelowC),
+      }), hit.time));
+    }
+  }
+  if (heatAboveC !== null) {
+    const hit = firstHit(hours, hour => hour.temperature, value => value > heatAboveC);
+    if (hit) {
+      alerts.push(thresholdAlert('heat', 'heatAboveC', translate(locale, 'weatherAlert.heat'), translate(locale, 'weatherAlert.heatDetail', {
+        temperature: describe.temperature(hit.value),
+        time: describe.time(hit.time),
+        threshold: describe.temperature(heatAboveC),
+      }), hit.time));
+    }
+  }
+  if (rainChanceAbove !== null) {
+    const hit = firstHit(hours, hour => hour.precipitationChance, value => value >= rainChanceAbove);
+    if (hit) {
+      alerts.push(thresholdAlert('rain', 'rainChanceAbove', translate(locale, 'weatherAlert.rain'), translate(locale, 'weatherAlert.rainDetail', {
+        chance: hit.value,
+        time: describe.time(hit.time),
+      }), hit.time));
+    }
+  }
+  // Only the current reading has a wind speed.
+  if (windAboveKmh !== null && result.weatherData.windSpeed > windAboveKmh) {
+    const today = hours[0]?.time ?? null;
+    alerts.push(thresholdAlert('wind', 'windAboveKmh', translate(locale, 'weatherAlert.wind'), translate(locale, 'weatherAlert.windDetail', {
+      speed: describe.windSpeed(result.weatherData.windSpeed),
+      threshold: describe.windSpeed(windAboveKmh),
+    }), today));
+  }
+
+  return alerts;
+};
+
+/** The provider's alerts that have not yet ended, followed by any of the user's thresholds the reading crosses. */
+export const collectWeatherAlerts = (result: WeatherResult, settings: Settings): WeatherAlert[] => {
+  const currentHour = result.forecast.hourly[0]?.time ?? '';
+  const active = result.alerts.filter(alert => alert.endsAt === null || alert.endsAt >= currentHour);
+  return [
+    ...active,
+    ...evaluateWeatherThresholds(result, settings.weatherAlerts, resolveLocale(settings.locale), {
+      temperature: celsius => formatTemperature(celsius, settings.temperatureUnit),
+      windSpeed: kmh => formatWindSpeed(kmh, settings.windSpeedUnit),
+      time: hourTime => formatTimeOfDay(hourTime.slice(11, 16), settings.clockFormat),
+    }),
+  ];
+};
+
+// Ids of alerts already raised as notifications, so a background check only announces new ones.
+const notifiedAlertStore = createPersistentStore<string[]>('orientation-sense:notified-weather-alerts', []);
+
+export const isWeatherAlertNotified = (id: string) => notifiedAlertStore.get().includes(id);
+
+export const markWeatherAlertNotified = (id: string) => {
+  notifiedAlertStore.set(ids => [id, ...ids.filter(existing => existing !== id)].slice(0, MAX_NOTIFIED_IDS));
+};
@@ -0,0 +1,97 @@
+import { CachedWeather, TemperatureUnit, WeatherBriefing } from '../types';
+import { ai, GEMINI_MODEL, hasGeminiApiKey } from './geminiClient';
+import { createPersistentStore } from './persistentStore';
+import { weatherCacheKey } from './weatherCache';
+import { isGroundingSource } from './weatherValidation';
+import { languageName } from './i18n';
+
+const MAX_ENTRIES = 10;
+const MAX_SUGGESTIONS = 3;
+const FORECAST_HOURS = 12;
+const FORECAST_DAYS = 2;
+
+interface CachedBriefing {
+  briefing: WeatherBriefing;
+  createdAt: number;
+}
+
+const briefingStore = createPersistentStore<Record<string, CachedBriefing>>('orientation-sense:weather-briefings', {});
+
+/** One briefing per reading: a refreshed reading, or one in another language or display unit, gets a new one. */
+const briefingKey = (entry: CachedWeather, unit: TemperatureUnit) =>
+  `${weatherCacheKey(entry.providerId, entry.coords, entry.language)}@${entry.fetchedAt}:${unit}`;
+
+export const getCachedBriefing = (entry: CachedWeather, unit: TemperatureUnit): WeatherBriefing | null =>
+  briefingStore.get()[briefingKey(entry, unit)]?.briefing ?? null;
+
+const cacheBriefing = (entry: CachedWeather, unit: TemperatureUnit, briefing: WeatherBriefing) => {
+  briefingStore.set(cache => {
+    const entries = Object.entries({ ...cache, [briefingKey(entry, unit)]: { briefing, createdAt: Date.now() } });
+    return Object.fromEntries(entries.sort(([, a], [, b]) => b.createdAt - a.createdAt).slice(0, MAX_ENTRIES));
+  });
+};
+
+const buildPrompt = ({ result, language }: CachedWeather, unit: TemperatureUnit) => `
+  Here is the current weather reading and forecast for ${result.weatherData.city}. Temperatures are in Celsius
+  and wind speeds in km/h; times are local to the location.
+
+  ${JSON.stringify({
+    current: result.weatherData,
+    hourly: result.forecast.hourly.slice(0, FORECAST_HOURS),
+    daily: result.forecast.daily.slice(0, FORECAST_DAYS),
+  })}
+
+  Write a short briefing for someone heading out today, e.g. "Light rain after 3pm, take an umbrella."
+  If you mention temperatures, give them in ${unit === 'fahrenheit' ? 'Fahrenheit' : 'Celsius'}.
+  You may use Google Search to check for anything notable, such as weather warnings, for this location.
+  Write the summary and suggestions in ${languageName(language, 'en')}, but keep the "SUMMARY:" label as it is.
+
+  Reply in exactly this format, with no other text:
+  SUMMARY: <one or two sentences>
+  - <up to ${MAX_SUGGESTIONS} short clothing or activity suggestions, one per line>
+`;
+
+const parseBriefing = (text: string): Omit<WeatherBriefing, 'sources'> | null => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const summaryLine = lines.find(line => /^summary:/i.test(line));
+  const summary = summaryLine?.replace(/^summary:\s*/i, '').trim();
+  if (!summary) return null;
+  const suggestions = lines
+    .filter(line => /^[-*•]\s+/.test(line))
+    .map(line => line.replace(/^[-*•]\s+/, ''))
+    .slice(0, MAX_SUGGESTIONS);
+  return { summary, suggestions };
+};
+
+/**
+ * Generates (or reuses) the briefing for a reading. The briefing is an
+ * optional extra, so it resolves to null instead of failing when there is no
+ * API key or the request goes wrong.
+ */
+export const fetchWeatherBriefing = async (entry: CachedWeather, unit: TemperatureUnit): Promise<WeatherBriefing | null> => {
+  if (!hasGeminiApiKey()) return null;
+  const cached = getCachedBriefing(entry, unit);
+  if (cached) return cached;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildPrompt(entry, unit),
+      config: {
+        tools: [{ googleSearch: {} }],
+      },
+    });
+    const parsed = parseBriefing(response.text ?? '');
+    if (!parsed) {
+      console.warn("Weather briefing was not in the expected format:", response.text);
+      return null;
+    }
+    const chunks: unknown[] = response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
+    const briefing: WeatherBriefing = { ...parsed, sources: chunks.filter(isGroundingSource) };
+    cacheBriefing(entry, unit, briefing);
+    return briefing;
+  } catch (error) {
+    console.warn("Could not generate weather briefing:", error);
+    return null;
+  }
+};
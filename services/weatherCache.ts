@@ -0,0 +1,55 @@
+import { CachedWeather, Coordinates, LocaleId, WeatherProviderId, WeatherResult } from '../types';
+import { createPersistentStore } from './persistentStore';
+
+/** Readings within roughly a kilometre of each other share a cache entry. */
+const COORDINATE_PRECISION = 2;
+const MAX_ENTRIES = 10;
+const DEFAULT_TTL_MINUTES = 30;
+
+const weatherCacheStore = createPersistentStore<Record<string, CachedWeather>>(
+  'orientation-sense:weather-cache',
+  {},
+  // Readings cached before alerts were added have no `alerts` array, and ones from before translation were in English.
+  cache => Object.fromEntries(Object.entries(cache).map(([key, entry]) => [key, {
+    ...entry,
+    language: entry.language ?? 'en',
+    result: { ...entry.result, alerts: entry.result.alerts ?? [] },
+  }]))
+);
+
+/** Freshness window, configurable through the `WEATHER_CACHE_TTL_MINUTES` env variable. */
+export const getWeatherCacheTtlMs = (): number => {
+  const configured = Number(process.env.WEATHER_CACHE_TTL_MINUTES);
+  return (Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TTL_MINUTES) * 60_000;
+};
+
+/** Readings are cached per language, since their condition and alert text is written in it. */
+export const weatherCacheKey = (providerId: WeatherProviderId, { lat, lon }: Coordinates, language: LocaleId) =>
+  `${providerId}:${language}:${lat.toFixed(COORDINATE_PRECISION)},${lon.toFixed(COORDINATE_PRECISION)}`;
+
+export const getCachedWeather = (providerId: WeatherProviderId, coords: Coordinates, language: LocaleId): CachedWeather | null =>
+  weatherCacheStore.get()[weatherCacheKey(providerId, coords, language)] ?? null;
+
+/** The most recent reading for any location and in any language, shown when the current one cannot be determined. */
+export const getLatestCachedWeather = (providerId: WeatherProviderId): CachedWeather | null =>
+  Object.values(weatherCacheStore.get())
+    .filter(entry => entry.providerId === providerId)
+    .reduce<CachedWeather | null>((latest, entry) => (!latest || entry.fetchedAt > latest.fetchedAt ? entry : latest), null);
+
+export const cacheWeather = (
+  providerId: WeatherProviderId,
+  coords: Coordinates,
+  language: LocaleId,
+  result: WeatherResult,
+  fetchedAt = Date.now()
+): CachedWeather => {
+  const entry: CachedWeather = { result, fetchedAt, providerId, coords, language };
+  weatherCacheStore.set(cache => {
+    const entries = Object.entries({ ...cache, [weatherCacheKey(providerId, coords, language)]: entry });
+    // Keep only the most recently fetched locations.
+    return Object.fromEntries(entries.sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt).slice(0, MAX_ENTRIES));
+  });
+  return entry;
+};
+
+export const isWeatherStale = (entry: CachedWeather, now = Date.now()) => now - entry.fetchedAt > getWeatherCacheTtlMs();
@@ -0,0 +1,96 @@
+import { WeatherData, HourlyForecast, DailyForecast, GroundingSource, WeatherAlert } from '../types';
+
+export interface WeatherFixture {
+  lat: number;
+  lon: number;
+  region: string;
+  weatherData: WeatherData;
+  // Forecast entries are undated; the mock provider stamps them from the current hour and day.
+  hourly: Omit<HourlyForecast, 'time'>[];
+  daily: Omit<DailyForecast, 'date'>[];
+  // Alert times are hour offsets from now, stamped like the forecast.
+  alerts: (Pick<WeatherAlert, 'kind' | 'severity' | 'title' | 'description'> & { startHour: number; endHour: number })[];
+  sources: GroundingSource[];
+}
+
+const hourlyFrom = (temperatures: number[], condition: string, icon: string, precipitationChance: number) =>
+  temperatures.map(temperature => ({ temperature, condition, icon, precipitationChance }));
+
+// Canned readings for the mock provider, so the weather view can be developed offline.
+export const WEATHER_FIXTURES: WeatherFixture[] = [
+  {
+    lat: 37.39,
+    lon: -122.08,
+    region: 'California, United States',
+    weatherData: { city: 'Mountain View', temperature: 21, condition: 'Clear', humidity: 48, windSpeed: 11, icon: '☀️' },
+    hourly: [
+      ...hourlyFrom([21, 22, 23, 23, 22, 20, 18, 16], 'Clear', '☀️', 0),
+      ...hourlyFrom([15, 14, 13, 13, 12, 12, 11, 11], 'Clear', '🌙', 0),
+      ...hourlyFrom([12, 13, 15, 17, 19, 20, 21, 22], 'Mainly Clear', '🌤️', 5),
+    ],
+    daily: [
+      { high: 23, low: 11, condition: 'Clear', icon: '☀️', precipitationChance: 0 },
+      { high: 22, low: 12, condition: 'Mainly Clear', icon: '🌤️', precipitationChance: 5 },
+      { high: 20, low: 12, condition: 'Partly Cloudy', icon: '⛅', precipitationChance: 10 },
+      { high: 18, low: 11, condition: 'Drizzle', icon: '🌦️', precipitationChance: 40 },
+      { high: 19, low: 10, condition: 'Partly Cloudy', icon: '⛅', precipitationChance: 15 },
+      { high: 22, low: 11, condition: 'Clear', icon: '☀️', precipitationChance: 0 },
+      { high: 24, low: 12, condition: 'Clear', icon: '☀️', precipitationChance: 0 },
+    ],
+    alerts: [],
+    sources: [{ web: { uri: 'https://example.com/weather/mountain-view', title: 'Example Weather — Mountain View' } }],
+  },
+  {
+    lat: 51.51,
+    lon: -0.13,
+    region: 'England, United Kingdom',
+    weatherData: { city: 'London', temperature: 12, condition: 'Rain', humidity: 87, windSpeed: 24, icon: '🌧️' },
+    hourly: [
+      ...hourlyFrom([12, 12, 11, 11, 10, 10, 9, 9], 'Rain', '🌧️', 80),
+      ...hourlyFrom([9, 8, 8, 8, 7, 7, 7, 8], 'Overcast', '☁️', 30),
+      ...hourlyFrom([9, 10, 11, 12, 13, 13, 13, 12], 'Drizzle', '🌦️', 55),
+    ],
+    daily: [
+      { high: 13, low: 7, condition: 'Rain', icon: '🌧️', precipitationChance: 85 },
+      { high: 13, low: 8, condition: 'Drizzle', icon: '🌦️', precipitationChance: 60 },
+      { high: 14, low: 8, condition: 'Overcast', icon: '☁️', precipitationChance: 25 },
+      { high: 15, low: 9, condition: 'Partly Cloudy', icon: '⛅', precipitationChance: 15 },
+      { high: 12, low: 6, condition: 'Rain', icon: '🌧️', precipitationChance: 75 },
+      { high: 11, low: 5, condition: 'Fog', icon: '🌫️', precipitationChance: 20 },
+      { high: 13, low: 6, condition: 'Mainly Clear', icon: '🌤️', precipitationChance: 10 },
+    ],
+    alerts: [],
+    sources: [],
+  },
+  {
+    lat: 35.68,
+    lon: 139.69,
+    region: 'Tokyo, Japan',
+    weatherData: { city: 'Tokyo', temperature: 27, condition: 'Partly Cloudy', humidity: 70, windSpeed: 9, icon: '⛅' },
+    hourly: [
+      ...hourlyFrom([27, 28, 28, 27, 26, 25, 24, 24], 'Partly Cloudy', '⛅', 20),
+      ...hourlyFrom([23, 23, 22, 22, 22, 21, 21, 22], 'Thunderstorm', '⛈️', 65),
+      ...hourlyFrom([23, 24, 25, 26, 27, 28, 28, 28], 'Mainly Clear', '🌤️', 10),
+    ],
+    daily: [
+      { high: 28, low: 21, condition: 'Thunderstorm', icon: '⛈️', precipitationChance: 65 },
+      { high: 29, low: 22, condition: 'Mainly Clear', icon: '🌤️', precipitationChance: 10 },
+      { high: 30, low: 23, condition: 'Clear', icon: '☀️', precipitationChance: 5 },
+      { high: 31, low: 24, condition: 'Clear', icon: '☀️', precipitationChance: 0 },
+      { high: 29, low: 23, condition: 'Rain', icon: '🌧️', precipitationChance: 70 },
+      { high: 27, low: 22, condition: 'Rain', icon: '🌧️', precipitationChance: 80 },
+      { high: 28, low: 22, condition: 'Partly Cloudy', icon: '⛅', precipitationChance: 30 },
+    ],
+    alerts: [
+      {
+        kind: 'storm',
+        severity: 'warning',
+        title: 'Thunderstorm Warning',
+        description: 'Thunderstorms with heavy rain and gusty winds are expected this evening.',
+        startHour: 8,
+        endHour: 15,
+      },
+    ],
+    sources: [],
+  },
+];
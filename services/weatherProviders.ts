@@ -0,0 +1,24 @@
+import { WeatherProvider, WeatherProviderId } from '../types';
+import { geminiWeatherProvider } from './geminiService';
+import { openMeteoWeatherProvider } from './openMeteoService';
+import { mockWeatherProvider } from './mockWeatherService';
+
+export const WEATHER_PROVIDERS: Record<WeatherProviderId, WeatherProvider> = {
+  gemini: geminiWeatherProvider,
+  'open-meteo': openMeteoWeatherProvider,
+  mock: mockWeatherProvider,
+};
+
+const DEFAULT_PROVIDER: WeatherProviderId = 'gemini';
+
+const isProviderId = (value: string | undefined): value is WeatherProviderId =>
+  value !== undefined && value in WEATHER_PROVIDERS;
+
+/** Picks the provider named by the `WEATHER_PROVIDER` env variable, defaulting to Gemini. */
+export const getWeatherProvider = (): WeatherProvider => {
+  const configured = process.env.WEATHER_PROVIDER;
+  if (configured && !isProviderId(configured)) {
+    console.warn(`Unknown WEATHER_PROVIDER "${configured}", falling back to "${DEFAULT_PROVIDER}".`);
+  }
+  return WEATHER_PROVIDERS[isProviderId(configured) ? configured : DEFAULT_PROVIDER];
+};
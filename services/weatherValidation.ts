@@ -0,0 +1,247 @@
+import { WeatherData, WeatherForecast, HourlyForecast, DailyForecast, GroundingSource, WeatherAlert } from '../types';
+import { MalformedWeatherResponseError, InvalidWeatherDataError } from './errors';
+import { WEATHER_ALERT_KINDS, WEATHER_ALERT_SEVERITIES, weatherAlertId } from './weatherAlerts';
+
+// Plausible bounds for surface readings; anything outside is treated as a model error.
+const TEMPERATURE_RANGE_C: [number, number] = [-90, 60];
+const WIND_SPEED_RANGE_KMH: [number, number] = [0, 450];
+const PERCENT_RANGE: [number, number] = [0, 100];
+
+type UnitConversions = Record<string, (value: number) => number>;
+
+const TEMPERATURE_UNITS: UnitConversions = {
+  '': value => value,
+  'c': value => value,
+  '°c': value => value,
+  'f': value => (value - 32) * 5 / 9,
+  '°f': value => (value - 32) * 5 / 9,
+};
+
+const WIND_SPEED_UNITS: UnitConversions = {
+  '': value => value,
+  'km/h': value => value,
+  'kmh': value => value,
+  'kph': value => value,
+  'mph': value => value * 1.609344,
+  'm/s': value => value * 3.6,
+};
+
+const PERCENT_UNITS: UnitConversions = {
+  '': value => value,
+  '%': value => value,
+};
+
+const MEASUREMENT_PATTERN = /^(-?\d+(?:\.\d+)?)\s*(.*)$/;
+const HOUR_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Accepts a plain number, or a string such as "72°F" or "15 mph" (which models
+ * occasionally return despite instructions), converted to the canonical unit.
+ */
+const readMeasurement = (
+  record: Record<string, unknown>,
+  field: string,
+  units: UnitConversions,
+  [min, max]: [number, number],
+  issues: string[],
+  path = ''
+): number => {
+  const raw = record[field];
+  let value: number | null = null;
+
+  if (typeof raw === 'number') {
+    value = raw;
+  } else if (typeof raw === 'string') {
+    const match = raw.trim().match(MEASUREMENT_PATTERN);
+    const convert = match ? units[match[2].trim().toLowerCase()] : undefined;
+    if (match && convert) {
+      value = convert(parseFloat(match[1]));
+    } else {
+      issues.push(`"${path}${field}" has an unrecognized value or unit: ${JSON.stringify(raw)}`);
+      return NaN;
+    }
+  }
+
+  if (value === null || !Number.isFinite(value)) {
+    issues.push(`"${path}${field}" must be a number`);
+    return NaN;
+  }
+  if (value < min || value > max) {
+    issues.push(`"${path}${field}" is out of range (${value}, expected ${min} to ${max})`);
+  }
+  return value;
+};
+
+const readText = (record: Record<string, unknown>, field: string, issues: string[], path = ''): string => {
+  const raw = record[field];
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    issues.push(`"${path}${field}" must be a non-empty string`);
+    return '';
+  }
+  return raw.trim();
+};
+
+const readIcon = (record: Record<string, unknown>, issues: string[], path = ''): string => {
+  const icon = readText(record, 'icon', issues, path);
+  if (icon && (!/\p{Extended_Pictographic}/u.test(icon) || [...icon].length > 4)) {
+    issues.push(`"${path}icon" must be a single emoji, got ${JSON.stringify(icon)}`);
+  }
+  return icon;
+};
+
+const readMatching = (record: Record<string, unknown>, field: string, pattern: RegExp, issues: string[], path: string): string => {
+  const text = readText(record, field, issues, path);
+  if (text && !pattern.test(text)) {
+    issues.push(`"${path}${field}" has an unexpected format: ${JSON.stringify(text)}`);
+  }
+  return text;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+
+/**
+ * Validates each entry of an array field, reporting issues against the entry's
+ * index (e.g. "hourly[3].temperature").
+ */
+const readEntries = <T>(
+  record: Record<string, unknown>,
+  field: string,
+  issues: string[],
+  readEntry: (entry: Record<string, unknown>, path: string) => T
+): T[] => {
+  const raw = record[field];
+  if (!Array.isArray(raw)) {
+    issues.push(`"${field}" must be an array`);
+    return [];
+  }
+  return raw.flatMap((value, index) => {
+    const entry = asRecord(value);
+    if (!entry) {
+      issues.push(`"${field}[${index}]" must be an object`);
+      return [];
+    }
+    return [readEntry(entry, `${field}[${index}].`)];
+  });
+};
+
+/** Validates and normalizes an untrusted weather object. Temperatures are °C, wind speeds km/h. */
+export const validateWeatherData = (value: unknown): WeatherData => {
+  const record = asRecord(value);
+  if (!record) {
+    throw new InvalidWeatherDataError(['expected a JSON object']);
+  }
+  const issues: string[] = [];
+
+  const weatherData: WeatherData = {
+    city: readText(record, 'city', issues),
+    temperature: readMeasurement(record, 'temperature', TEMPERATURE_UNITS, TEMPERATURE_RANGE_C, issues),
+    condition: readText(record, 'condition', issues),
+    humidity: readMeasurement(record, 'humidity', PERCENT_UNITS, PERCENT_RANGE, issues),
+    windSpeed: readMeasurement(record, 'windSpeed', WIND_SPEED_UNITS, WIND_SPEED_RANGE_KMH, issues),
+    icon: readIcon(record, issues),
+  };
+
+  if (issues.length > 0) {
+    throw new InvalidWeatherDataError(issues);
+  }
+  return weatherData;
+};
+
+/** Validates the `hourly` and `daily` arrays of an untrusted forecast object, in °C and percent. */
+export const validateWeatherForecast = (value: unknown): WeatherForecast => {
+  const record = asRecord(value);
+  if (!record) {
+    throw new InvalidWeatherDataError(['expected a JSON object']);
+  }
+  const issues: string[] = [];
+
+  const hourly = readEntries<HourlyForecast>(record, 'hourly', issues, (entry, path) => ({
+    time: readMatching(entry, 'time', HOUR_PATTERN, issues, path),
+    temperature: readMeasurement(entry, 'temperature', TEMPERATURE_UNITS, TEMPERATURE_RANGE_C, issues, path),
+    condition: readText(entry, 'condition', issues, path),
+    icon: readIcon(entry, issues, path),
+    precipitationChance: readMeasurement(entry, 'precipitationChance', PERCENT_UNITS, PERCENT_RANGE, issues, path),
+  }));
+
+  const daily = readEntries<DailyForecast>(record, 'daily', issues, (entry, path) => {
+    const day: DailyForecast = {
+      date: readMatching(entry, 'date', DATE_PATTERN, issues, path),
+      high: readMeasurement(entry, 'high', TEMPERATURE_UNITS, TEMPERATURE_RANGE_C, issues, path),
+      low: readMeasurement(entry, 'low', TEMPERATURE_UNITS, TEMPERATURE_RANGE_C, issues, path),
+      condition: readText(entry, 'condition', issues, path),
+      icon: readIcon(entry, issues, path),
+      precipitationChance: readMeasurement(entry, 'precipitationChance', PERCENT_UNITS, PERCENT_RANGE, issues, path),
+    };
+    if (day.low > day.high) {
+      issues.push(`"${path}low" is above "${path}high"`);
+    }
+    return day;
+  });
+
+  if (issues.length > 0) {
+    throw new InvalidWeatherDataError(issues);
+  }
+  return { hourly, daily };
+};
+
+const readOptionalTime = (record: Record<string, unknown>, field: string, issues: string[], path: string): string | null =>
+  record[field] === undefined || record[field] === null || record[field] === '' ? null : readMatching(record, field, HOUR_PATTERN, issues, path);
+
+/**
+ * Validates the optional `alerts` array of an untrusted weather object. A
+ * missing array means no alerts; unrecognized kinds and severities are
+ * downgraded to "other" and "advisory" rather than rejected.
+ */
+export const validateWeatherAlerts = (value: unknown): WeatherAlert[] => {
+  const record = asRecord(value);
+  if (!record) {
+    throw new InvalidWeatherDataError(['expected a JSON object']);
+  }
+  if (record.alerts === undefined || record.alerts === null) return [];
+  const issues: string[] = [];
+
+  const alerts = readEntries<WeatherAlert>(record, 'alerts', issues, (entry, path) => {
+    const kind = WEATHER_ALERT_KINDS.find(candidate => candidate === entry.kind) ?? 'other';
+    const severity = WEATHER_ALERT_SEVERITIES.find(candidate => candidate === entry.severity) ?? 'advisory';
+    const title = readText(entry, 'title', issues, path);
+    const startsAt = readOptionalTime(entry, 'startsAt', issues, path);
+    return {
+      id: weatherAlertId(kind, title, startsAt),
+      kind,
+      severity,
+      title,
+      description: typeof entry.description === 'string' ? entry.description.trim() : '',
+      startsAt,
+      endsAt: readOptionalTime(entry, 'endsAt', issues, path),
+      source: 'provider',
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new InvalidWeatherDataError(issues);
+  }
+  return alerts;
+};
+
+/** Parses model output as JSON, tolerating markdown fences and surrounding prose. */
+export const parseJsonResponse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const cleanedText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    const start = cleanedText.indexOf('{');
+    const end = cleanedText.lastIndexOf('}');
+    try {
+      return JSON.parse(start >= 0 && end > start ? cleanedText.slice(start, end + 1) : cleanedText);
+    } catch (error) {
+      throw new MalformedWeatherResponseError(text, error);
+    }
+  }
+};
+
+export const isGroundingSource = (value: unknown): value is GroundingSource => {
+  const web = (value as GroundingSource | null)?.web;
+  return typeof web?.uri === 'string' && web.uri.startsWith('http');
+};
@@ -0,0 +1,16 @@
+import { createPersistentStore } from './persistentStore';
+
+/** IANA time zone names, in the order the user added them. */
+export const worldClockStore = createPersistentStore<string[]>('orientation-sense:world-clocks', [
+  'America/New_York',
+  'Europe/London',
+  'Asia/Tokyo',
+]);
+
+export const addWorldClock = (timeZone: string) => {
+  worldClockStore.set(zones => zones.includes(timeZone) ? zones : [...zones, timeZone]);
+};
+
+export const removeWorldClock = (timeZone: string) => {
+  worldClockStore.set(zones => zones.filter(zone => zone !== timeZone));
+};
@@ -0,0 +1,16 @@
+import axe from 'axe-core';
+import { expect } from 'vitest';
+
+// jsdom has no layout or styles, so rules that measure the rendered page cannot run there.
+const RULES_NEEDING_LAYOUT = ['color-contrast', 'target-size'];
+
+/** Runs axe over `element` and fails with the violations, described one per line, if there are any. */
+export const expectNoAxeViolations = async (element: Element = document.body) => {
+  const { violations } = await axe.run(element, {
+    rules: Object.fromEntries(RULES_NEEDING_LAYOUT.map(rule => [rule, { enabled: false }])),
+  });
+  const described = violations.map(({ id, help, nodes }) =>
+    `${id}: ${help}\n${nodes.map(node => `  ${node.html}`).join('\n')}`
+  );
+  expect(described).toEqual([]);
+};
@@ -0,0 +1,28 @@
+import { afterEach, beforeEach, vi } from 'vitest';
+import { Clock, FrameScheduler } from '../services/clock';
+
+/** Where faked time starts in every test that calls `useFakeTime`. */
+export const START = Date.UTC(2025, 0, 6, 9, 0, 0);
+
+// Both read the faked `Date.now()` and `setTimeout`, so `vi.advanceTimersByTime` drives them together.
+export const fakeClock: Clock = { now: () => Date.now() };
+
+/** Fires every frame `lateByMs` after it was asked for, like a busy or throttled page. */
+export const lateScheduler = (lateByMs: number): FrameScheduler => ({
+  request: (callback, delayMs) => {
+    const timeoutId = setTimeout(callback, delayMs + lateByMs);
+    return () => clearTimeout(timeoutId);
+  },
+});
+
+/** Fakes timers and the date, starting at `START`, for each test in the calling file. */
+export const useFakeTime = () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+};
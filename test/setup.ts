@@ -0,0 +1,11 @@
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Tests run as a single tab. Node's BroadcastChannel also warns once more than ten stores listen on the shared channel.
+vi.stubGlobal('BroadcastChannel', undefined);
+
+afterEach(() => {
+  cleanup();
+  // Stores persist to localStorage, which only exists in jsdom tests.
+  if (typeof localStorage !== 'undefined') localStorage.clear();
+});
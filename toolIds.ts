@@ -0,0 +1,9 @@
+/**
+ * Every tool id, in tab bar order. Imports nothing, so stores can check tool
+ * ids without pulling in tools.tsx and, through it, every view.
+ */
+export const TOOL_IDS = ['alarm', 'stopwatch', 'timer', 'weather', 'worldClock', 'compass', 'level'] as const;
+
+export type ToolId = (typeof TOOL_IDS)[number];
+
+export const isToolId = (value: unknown): value is ToolId => (TOOL_IDS as readonly unknown[]).includes(value);
@@ -0,0 +1,50 @@
+import React, { ComponentType, ReactNode } from 'react';
+import { ToolCapability } from './types';
+import { TOOL_IDS, ToolId } from './toolIds';
+import { ICONS } from './constants';
+import { MessageKey } from './locales/en';
+import { hasDeviceOrientationEvents } from './services/orientationDetection';
+import AlarmView from './components/AlarmView';
+import StopwatchView from './components/StopwatchView';
+import TimerView from './components/TimerView';
+import WeatherView from './components/WeatherView';
+import WorldClockView from './components/WorldClockView';
+import CompassView from './components/CompassView';
+import BubbleLevelView from './components/BubbleLevelView';
+
+export interface ToolDefinition {
+  id: ToolId;
+  labelKey: MessageKey;
+  icon: ReactNode;
+  component: ComponentType;
+  capabilities: ToolCapability[];
+}
+
+/**
+ * Every tool the app can show. Keyed by `ToolId`, so adding an id to
+ * `TOOL_IDS` without registering its tool is a type error; the tab bar,
+ * keyboard shortcuts and orientation settings are all generated from this list.
+ */
+const TOOL_REGISTRY: Record<ToolId, Omit<ToolDefinition, 'id'>> = {
+  alarm: { labelKey: 'tool.alarm', icon: ICONS.ALARM, component: AlarmView, capabilities: [] },
+  stopwatch: { labelKey: 'tool.stopwatch', icon: ICONS.STOPWATCH, component: StopwatchView, capabilities: [] },
+  timer: { labelKey: 'tool.timer', icon: ICONS.TIMER, component: TimerView, capabilities: [] },
+  weather: { labelKey: 'tool.weather', icon: ICONS.SUN, component: WeatherView, capabilities: [] },
+  worldClock: { labelKey: 'tool.worldClock', icon: ICONS.WORLD_CLOCK, component: WorldClockView, capabilities: [] },
+  compass: { labelKey: 'tool.compass', icon: ICONS.COMPASS, component: CompassView, capabilities: ['device-orientation'] },
+  level: { labelKey: 'tool.level', icon: ICONS.LEVEL, component: BubbleLevelView, capabilities: ['device-orientation'] },
+};
+
+const CAPABILITY_CHECKS: Record<ToolCapability, () => boolean> = {
+  'geolocation': () => typeof navigator !== 'undefined' && 'geolocation' in navigator,
+  'device-orientation': hasDeviceOrientationEvents,
+};
+
+export const TOOLS: ToolDefinition[] = TOOL_IDS.map(id => ({ id, ...TOOL_REGISTRY[id] }));
+
+export const getTool = (id: ToolId): ToolDefinition => ({ id, ...TOOL_REGISTRY[id] });
+
+export const isToolSupported = (tool: ToolDefinition) => tool.capabilities.every(capability => CAPABILITY_CHECKS[capability]());
+
+/** The tools this browser can run, for navigation and the orientation settings. */
+export const getAvailableTools = () => TOOLS.filter(isToolSupported);
@@ -1,4 +1,6 @@
 
+import { ToolId } from './toolIds';
+
 export type Orientation =
   | 'portrait-primary'
   | 'portrait-secondary'
@@ -6,6 +8,33 @@ export type Orientation =
   | 'landscape-secondary'
   | 'unknown';
 
+export type DeviceOrientation = Exclude<Orientation, 'unknown'>;
+
+/** Where the current orientation reading comes from, in order of preference. */
+export type OrientationSource =
+  | 'screen-orientation'
+  | 'device-orientation'
+  | 'window-orientation'
+  | 'media-query'
+  | 'none';
+
+export type MotionPermission = 'not-required' | 'prompt' | 'granted' | 'denied';
+
+export type { ToolId } from './toolIds';
+
+/** Browser features a tool cannot work without; tools whose capabilities are missing are hidden. */
+export type ToolCapability = 'geolocation' | 'device-orientation';
+
+export type NavigationMode = 'orientation' | 'manual';
+
+/** Languages the interface is translated into. */
+export type LocaleId = 'en' | 'es' | 'ar';
+
+/** Wording for each CLDR plural category of a count; `other` is required as every language has it. */
+export type PluralMessage = { other: string } & Partial<Record<Intl.LDMLPluralRule, string>>;
+
+export type Message = string | PluralMessage;
+
 export interface WeatherData {
   city: string;
   temperature: number;
@@ -21,3 +50,196 @@ export interface GroundingSource {
     title: string;
   };
 }
+
+/** Day of the week as returned by `Date#getDay` (0 = Sunday). */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export type AlarmRepeat =
+  | { type: 'once' }
+  | { type: 'weekdays' }
+  | { type: 'days'; days: Weekday[] };
+
+export interface Alarm {
+  id: string;
+  label: string;
+  time: string; // "HH:MM" in local wall-clock time
+  repeat: AlarmRepeat;
+  enabled: boolean;
+  armedAt: number; // occurrences before this instant never ring
+  snoozedUntil: number | null;
+  lastFiredAt: number | null;
+  soundId: string | null; // null rings with the default alarm sound from settings
+}
+
+export interface HourlyForecast {
+  time: string; // "YYYY-MM-DDTHH:mm", local to the forecast location
+  temperature: number;
+  condition: string;
+  icon: string;
+  precipitationChance: number; // percentage
+}
+
+export interface DailyForecast {
+  date: string; // "YYYY-MM-DD", local to the forecast location
+  high: number;
+  low: number;
+  condition: string;
+  icon: string;
+  precipitationChance: number; // percentage
+}
+
+export interface WeatherForecast {
+  hourly: HourlyForecast[]; // the next 24 hours
+  daily: DailyForecast[]; // today and the following 6 days
+}
+
+export type WeatherAlertKind = 'storm' | 'heat' | 'frost' | 'wind' | 'rain' | 'other';
+export type WeatherAlertSeverity = 'advisory' | 'watch' | 'warning';
+
+export interface WeatherAlert {
+  id: string; // stable across refreshes, so an alert is only notified once
+  kind: WeatherAlertKind;
+  severity: WeatherAlertSeverity;
+  title: string;
+  description: string;
+  startsAt: string | null; // "YYYY-MM-DDTHH:mm", local to the forecast location
+  endsAt: string | null;
+  source: 'provider' | 'threshold'; // issued by the weather source, or raised by the user's own thresholds
+}
+
+export interface WeatherResult {
+  weatherData: WeatherData;
+  forecast: WeatherForecast;
+  alerts: WeatherAlert[]; // active warnings from the provider
+  sources: GroundingSource[];
+}
+
+export type WeatherProviderId = 'gemini' | 'open-meteo' | 'mock';
+
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  name: string;
+  // Condition, city and alert text come back in `language` where the source supports it.
+  fetchWeather: (lat: number, lon: number, language: LocaleId) => Promise<WeatherResult>;
+  searchLocations: (query: string, language: LocaleId) => Promise<LocationMatch[]>;
+}
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+export interface LocationMatch {
+  name: string;
+  region: string; // e.g. "California, United States"
+  coords: Coordinates;
+}
+
+export interface SavedLocation extends LocationMatch {
+  id: string;
+}
+
+export interface CachedWeather {
+  result: WeatherResult;
+  fetchedAt: number;
+  providerId: WeatherProviderId;
+  coords: Coordinates;
+  language: LocaleId;
+}
+
+/** A short plain-language summary of a reading, generated by Gemini. */
+export interface WeatherBriefing {
+  summary: string;
+  suggestions: string[]; // what to wear or do, e.g. "Take an umbrella after 3pm"
+  sources: GroundingSource[];
+}
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type WindSpeedUnit = 'kmh' | 'mph' | 'ms';
+export type ClockFormat = '12h' | '24h';
+
+/** User thresholds for weather alerts, in canonical units; null turns a check off. */
+export interface WeatherAlertSettings {
+  backgroundCheck: boolean; // notify while the weather view is closed
+  frostBelowC: number | null;
+  heatAboveC: number | null;
+  windAboveKmh: number | null;
+  rainChanceAbove: number | null; // percentage
+}
+
+/** A sound the user uploaded; the audio itself is kept in IndexedDB under the same id. */
+export interface CustomSound {
+  id: string; // "custom:<uuid>"; bundled sounds use "bundled:<name>"
+  name: string;
+  type: string; // MIME type of the uploaded file
+  size: number; // bytes
+}
+
+export interface SoundSettings {
+  alarmSoundId: string;
+  timerSoundId: string;
+  volume: number; // 0 to 1
+  rampSeconds: number; // how long ringing takes to reach full volume
+  vibrate: boolean;
+}
+
+export interface Settings {
+  temperatureUnit: TemperatureUnit;
+  windSpeedUnit: WindSpeedUnit;
+  clockFormat: ClockFormat;
+  navigationMode: NavigationMode;
+  orientationTools: Record<DeviceOrientation, ToolId>;
+  weatherAlerts: WeatherAlertSettings;
+  sounds: SoundSettings;
+  locale: LocaleId | null; // null follows the browser's language
+  weatherBriefing: boolean; // opt-in, since each reading costs an extra Gemini request
+}
+
+export interface StopwatchState {
+  startedAt: number | null; // wall-clock start of the current run, null while stopped
+  accumulatedMs: number; // time from earlier runs since the last reset
+  laps: number[]; // cumulative split times in ms, oldest first
+  sessionStartedAt: number | null;
+}
+
+export interface StopwatchSession {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  totalMs: number;
+  laps: number[]; // cumulative split times in ms, oldest first
+}
+
+export type TimerStageKind = 'work' | 'rest';
+
+export interface TimerStage {
+  label: string;
+  kind: TimerStageKind;
+  durationSeconds: number;
+}
+
+export interface TimerProgram {
+  id: string;
+  name: string;
+  stages: TimerStage[];
+  rounds: number; // how many times the stage list repeats
+}
+
+export interface Countdown {
+  durationMs: number;
+  remainingMs: number; // as of the last pause; derive live values from `endsAt`
+  endsAt: number | null; // wall-clock end while running, null while paused
+}
+
+export interface TimerRun {
+  program: TimerProgram; // snapshot, so editing a saved program does not disturb a run
+  stepIndex: number;
+  countdown: Countdown;
+  finished: boolean;
+}
+
+export interface Timer {
+  id: string;
+  label: string;
+  run: TimerRun;
+}
@@ -0,0 +1,22 @@
+import { AlarmRepeat, Weekday } from '../types';
+import { getLocale, t } from '../services/i18n';
+
+/** Weekdays in display order, Monday first. */
+export const ALL_DAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+
+/** The short name of a weekday in the current locale, e.g. "Mon" or "lun". */
+export const weekdayLabel = (day: Weekday): string =>
+  // 1 January 2023 was a Sunday.
+  new Date(2023, 0, 1 + day).toLocaleDateString(getLocale().tag, { weekday: 'short' });
+
+export const describeRepeat = (repeat: AlarmRepeat): string => {
+  switch (repeat.type) {
+    case 'once': return t('repeat.once');
+    case 'weekdays': return t('repeat.weekdays');
+    case 'days':
+      if (repeat.days.length === 7) return t('repeat.everyDay');
+      return new Intl.ListFormat(getLocale().tag, { style: 'narrow' }).format(
+        ALL_DAYS.filter(day => repeat.days.includes(day)).map(weekdayLabel)
+      );
+  }
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { formatCountdown, formatStopwatchTime } from './duration';
+
+describe('formatStopwatchTime', () => {
+  it('shows minutes, seconds and hundredths under an hour', () => {
+    expect(formatStopwatchTime(0)).toBe('00:00.00');
+    expect(formatStopwatchTime(61_239)).toBe('01:01.23');
+    expect(formatStopwatchTime(3_599_999)).toBe('59:59.99');
+  });
+
+  it('adds an hours field from the first hour on, instead of wrapping the minutes', () => {
+    expect(formatStopwatchTime(3_600_000)).toBe('1:00:00.00');
+    expect(formatStopwatchTime(3_600_000 * 12 + 5 * 60_000 + 7_500)).toBe('12:05:07.50');
+  });
+});
+
+describe('formatCountdown', () => {
+  it('rounds up to the second and never reads below zero', () => {
+    expect(formatCountdown(90_001)).toBe('00:01:31');
+    expect(formatCountdown(3_600_000)).toBe('01:00:00');
+    expect(formatCountdown(-500)).toBe('00:00:00');
+  });
+});
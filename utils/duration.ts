@@ -0,0 +1,14 @@
+const pad = (value: number) => Math.floor(value).toString().padStart(2, '0');
+
+/** "HH:MM:SS", rounded up so a countdown only reads 00:00:00 once it has fully run out. */
+export const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(Math.max(ms, 0) / 1000);
+  return `${pad(seconds / 3600)}:${pad((seconds % 3600) / 60)}:${pad(seconds % 60)}`;
+};
+
+/** "MM:SS.cc", with an hours field ("H:MM:SS.cc") from the first hour on. */
+export const formatStopwatchTime = (ms: number) => {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutesAndSeconds = `${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)}.${pad((ms % 1000) / 10)}`;
+  return hours > 0 ? `${hours}:${minutesAndSeconds}` : minutesAndSeconds;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { computeLapStats, getLapDurations } from './lapStats';
+
+describe('getLapDurations', () => {
+  it('turns cumulative splits into the time of each lap', () => {
+    expect(getLapDurations([60_000, 115_000, 185_000])).toEqual([60_000, 55_000, 70_000]);
+    expect(getLapDurations([])).toEqual([]);
+  });
+});
+
+describe('computeLapStats', () => {
+  it('has nothing to compare with fewer than two laps', () => {
+    expect(computeLapStats([])).toBeNull();
+    expect(computeLapStats([60_000])).toBeNull();
+  });
+
+  it('finds the fastest and slowest lap and the spread around the average', () => {
+    expect(computeLapStats([60_000, 55_000, 70_000, 55_000])).toEqual({
+      fastestIndex: 1,
+      slowestIndex: 2,
+      averageMs: 60_000,
+      standardDeviationMs: Math.sqrt((0 + 25_000_000 + 100_000_000 + 25_000_000) / 4),
+    });
+  });
+
+  it('keeps the first of several equally fast or slow laps', () => {
+    const stats = computeLapStats([50_000, 50_000, 50_000]);
+    expect(stats).toMatchObject({ fastestIndex: 0, slowestIndex: 0, averageMs: 50_000, standardDeviationMs: 0 });
+  });
+});
@@ -0,0 +1,27 @@
+export interface LapStats {
+  fastestIndex: number;
+  slowestIndex: number;
+  averageMs: number;
+  standardDeviationMs: number;
+}
+
+/** Turns cumulative split times into individual lap durations. */
+export const getLapDurations = (splits: number[]): number[] =>
+  splits.map((split, index) => split - (splits[index - 1] ?? 0));
+
+/** Statistics over lap durations; null until there are at least two laps to compare. */
+export const computeLapStats = (durations: number[]): LapStats | null => {
+  if (durations.length < 2) return null;
+
+  let fastestIndex = 0;
+  let slowestIndex = 0;
+  durations.forEach((duration, index) => {
+    if (duration < durations[fastestIndex]) fastestIndex = index;
+    if (duration > durations[slowestIndex]) slowestIndex = index;
+  });
+
+  const averageMs = durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+  const variance = durations.reduce((sum, duration) => sum + (duration - averageMs) ** 2, 0) / durations.length;
+
+  return { fastestIndex, slowestIndex, averageMs, standardDeviationMs: Math.sqrt(variance) };
+};
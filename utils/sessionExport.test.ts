@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { StopwatchSession } from '../types';
+import { downloadFile, sessionFileName, sessionToCsv, sessionToJson } from './sessionExport';
+
+const SESSION: StopwatchSession = {
+  id: 'run',
+  startedAt: Date.UTC(2025, 0, 6, 9, 0, 0),
+  endedAt: Date.UTC(2025, 0, 6, 9, 3, 30),
+  totalMs: 210_000,
+  laps: [60_000, 115_000, 185_000],
+};
+
+const { createObjectURL, revokeObjectURL } = URL;
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  Object.assign(URL, { createObjectURL, revokeObjectURL });
+});
+
+describe('session export', () => {
+  it('names files after the session start', () => {
+    expect(sessionFileName(SESSION, 'csv')).toBe('stopwatch-2025-01-06-09-00-00.csv');
+  });
+
+  it('writes one CSV row per lap, with its own time and the split', () => {
+    expect(sessionToCsv(SESSION)).toBe('lap,lap_ms,split_ms\n1,60000,60000\n2,55000,115000\n3,70000,185000\n');
+  });
+
+  it('writes the laps and their statistics as JSON', () => {
+    const exported = JSON.parse(sessionToJson(SESSION));
+
+    expect(exported).toMatchObject({
+      startedAt: '2025-01-06T09:00:00.000Z',
+      endedAt: '2025-01-06T09:03:30.000Z',
+      totalMs: 210_000,
+      laps: [
+        { lap: 1, durationMs: 60_000, splitMs: 60_000 },
+        { lap: 2, durationMs: 55_000, splitMs: 115_000 },
+        { lap: 3, durationMs: 70_000, splitMs: 185_000 },
+      ],
+      stats: { fastestIndex: 1, slowestIndex: 2 },
+    });
+    expect(exported.stats.averageMs).toBeCloseTo(61_666.67, 1);
+  });
+
+  it('keeps the download URL alive after the click, so the download can start', () => {
+    vi.useFakeTimers();
+    // jsdom implements neither object URLs nor navigation.
+    URL.createObjectURL = vi.fn(() => 'blob:session');
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    downloadFile('session.csv', 'lap\n', 'text/csv');
+
+    expect(click).toHaveBeenCalledOnce();
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+    vi.runAllTimers();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:session');
+  });
+});
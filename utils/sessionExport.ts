@@ -0,0 +1,47 @@
+import { StopwatchSession } from '../types';
+import { getLapDurations, computeLapStats } from './lapStats';
+
+const fileStamp = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+export const sessionFileName = (session: StopwatchSession, extension: 'csv' | 'json') =>
+  `stopwatch-${fileStamp(session.startedAt)}.${extension}`;
+
+export const sessionToCsv = (session: StopwatchSession): string => {
+  const durations = getLapDurations(session.laps);
+  const rows = [
+    ['lap', 'lap_ms', 'split_ms'],
+    ...durations.map((duration, index) => [String(index + 1), String(duration), String(session.laps[index])]),
+  ];
+  return rows.map(row => row.join(',')).join('\n') + '\n';
+};
+
+export const sessionToJson = (session: StopwatchSession): string => {
+  const durations = getLapDurations(session.laps);
+  return JSON.stringify({
+    startedAt: new Date(session.startedAt).toISOString(),
+    endedAt: new Date(session.endedAt).toISOString(),
+    totalMs: session.totalMs,
+    laps: durations.map((durationMs, index) => ({ lap: index + 1, durationMs, splitMs: session.laps[index] })),
+    stats: computeLapStats(durations),
+  }, null, 2);
+};
+
+// Some browsers start the download only after `click()` returns, and cancel it if the URL is gone by then.
+const REVOKE_DELAY_MS = 60_000;
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+export const exportSession = (session: StopwatchSession, format: 'csv' | 'json') => {
+  if (format === 'csv') {
+    downloadFile(sessionFileName(session, 'csv'), sessionToCsv(session), 'text/csv');
+  } else {
+    downloadFile(sessionFileName(session, 'json'), sessionToJson(session), 'application/json');
+  }
+};
@@ -0,0 +1,25 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { describeTimeZoneDifference, getLocalTimeZone, getTimeZoneOffsetMinutes } from './timeZones';
+
+describe('getTimeZoneOffsetMinutes', () => {
+  it('is exact at every second of the minute', () => {
+    for (const second of [0, 29, 30, 45, 59]) {
+      const date = new Date(Date.UTC(2025, 0, 6, 12, 0, second, 999));
+      expect(getTimeZoneOffsetMinutes(date, 'UTC')).toBe(0);
+      expect(getTimeZoneOffsetMinutes(date, 'Asia/Kolkata')).toBe(330);
+      expect(getTimeZoneOffsetMinutes(date, 'America/St_Johns')).toBe(-210);
+    }
+  });
+
+  it('follows daylight saving time', () => {
+    expect(getTimeZoneOffsetMinutes(new Date(Date.UTC(2025, 0, 15, 12, 0, 45)), 'Europe/Berlin')).toBe(60);
+    expect(getTimeZoneOffsetMinutes(new Date(Date.UTC(2025, 6, 15, 12, 0, 45)), 'Europe/Berlin')).toBe(120);
+  });
+});
+
+describe('describeTimeZoneDifference', () => {
+  it('reads "Same time" for the local time zone late in the minute', () => {
+    expect(describeTimeZoneDifference(new Date(Date.UTC(2025, 0, 6, 12, 0, 45)), getLocalTimeZone())).toBe('Same time');
+  });
+});
@@ -0,0 +1,57 @@
+import { ClockFormat } from '../types';
+import { getLocale, t } from '../services/i18n';
+
+// Used where Intl.supportedValuesOf is missing (Safari before 15.4).
+const FALLBACK_TIME_ZONES = [
+  'America/Los_Angeles', 'America/Denver', 'America/Chicago', 'America/New_York', 'America/Sao_Paulo',
+  'Europe/London', 'Europe/Paris', 'Europe/Berlin', 'Europe/Moscow', 'Africa/Cairo', 'Africa/Johannesburg',
+  'Asia/Dubai', 'Asia/Kolkata', 'Asia/Singapore', 'Asia/Shanghai', 'Asia/Tokyo', 'Australia/Sydney', 'Pacific/Auckland',
+];
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const listTimeZones = (): string[] =>
+  typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : FALLBACK_TIME_ZONES;
+
+/** "America/New_York" → "New York". */
+export const timeZoneCity = (timeZone: string) => (timeZone.split('/').pop() ?? timeZone).replace(/_/g, ' ');
+
+export const formatTimeInZone = (date: Date, timeZone: string, clockFormat: ClockFormat): string =>
+  date.toLocaleTimeString(getLocale().tag, {
+    timeZone,
+    hour: clockFormat === '12h' ? 'numeric' : '2-digit',
+    minute: '2-digit',
+    hour12: clockFormat === '12h',
+  });
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(candidate => candidate.type === type)?.value);
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute'), second: part('second') };
+};
+
+/** How many minutes `timeZone` is ahead of UTC at `date`, including daylight saving time. */
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  // Compared to the second, as the zoned parts are: dropping the seconds would make the offset read a minute
+  // short for the second half of every minute.
+  const { year, month, day, hour, minute, second } = zonedParts(date, timeZone);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((Date.UTC(year, month - 1, day, hour, minute, second) - wholeSeconds) / 60_000);
+};
+
+/** The difference from local time, e.g. "+5h 30m" or "Same time". */
+export const describeTimeZoneDifference = (date: Date, timeZone: string): string => {
+  const minutes = getTimeZoneOffsetMinutes(date, timeZone) + date.getTimezoneOffset();
+  if (minutes === 0) return t('timeZone.sameTime');
+  const params = { sign: minutes > 0 ? '+' : '-', hours: Math.floor(Math.abs(minutes) / 60), minutes: Math.abs(minutes) % 60 };
+  return t(params.minutes ? 'timeZone.differenceHoursMinutes' : 'timeZone.differenceHours', params);
+};
+
+/** "Today", "Tomorrow" or "Yesterday" in `timeZone`, relative to the local date. */
+export const describeTimeZoneDay = (date: Date, timeZone: string): string => {
+  const { year, month, day } = zonedParts(date, timeZone);
+  const days = Math.round((Date.UTC(year, month - 1, day) - Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())) / 86_400_000);
+  return t(days > 0 ? 'timeZone.tomorrow' : days < 0 ? 'timeZone.yesterday' : 'timeZone.today');
+};
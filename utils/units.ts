@@ -0,0 +1,57 @@
+import { ClockFormat, TemperatureUnit, WindSpeedUnit } from '../types';
+import { getLocale } from '../services/i18n';
+
+// Weather data is always stored in °C and km/h; every conversion for display happens here.
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit): number =>
+  unit === 'fahrenheit' ? celsius * 9 / 5 + 32 : celsius;
+
+export const convertWindSpeed = (kmh: number, unit: WindSpeedUnit): number => {
+  switch (unit) {
+    case 'kmh': return kmh;
+    case 'mph': return kmh / 1.609344;
+    case 'ms': return kmh / 3.6;
+  }
+};
+
+/** The inverse conversions, for values the user enters in their display unit. */
+export const temperatureToCelsius = (value: number, unit: TemperatureUnit): number =>
+  unit === 'fahrenheit' ? (value - 32) * 5 / 9 : value;
+
+export const windSpeedToKmh = (value: number, unit: WindSpeedUnit): number => value / convertWindSpeed(1, unit);
+
+export const TEMPERATURE_UNIT_LABELS: Record<TemperatureUnit, string> = {
+  celsius: '°C',
+  fahrenheit: '°F',
+};
+
+export const WIND_SPEED_UNIT_LABELS: Record<WindSpeedUnit, string> = {
+  kmh: 'km/h',
+  mph: 'mph',
+  ms: 'm/s',
+};
+
+/** "21°C", or just "21°" when the unit is clear from context (e.g. forecast lists). */
+export const formatTemperature = (celsius: number, unit: TemperatureUnit, { showUnit = true } = {}): string => {
+  const value = Math.round(convertTemperature(celsius, unit));
+  return showUnit ? `${value}${TEMPERATURE_UNIT_LABELS[unit]}` : `${value}°`;
+};
+
+export const formatWindSpeed = (kmh: number, unit: WindSpeedUnit): string =>
+  `${Math.round(convertWindSpeed(kmh, unit))} ${WIND_SPEED_UNIT_LABELS[unit]}`;
+
+export const formatClockTime = (date: Date, clockFormat: ClockFormat, { seconds = false } = {}): string =>
+  date.toLocaleTimeString(getLocale().tag, {
+    hour: clockFormat === '12h' ? 'numeric' : '2-digit',
+    minute: '2-digit',
+    second: seconds ? '2-digit' : undefined,
+    hour12: clockFormat === '12h',
+  });
+
+/** Formats a stored "HH:MM" wall-clock time. */
+export const formatTimeOfDay = (time: string, clockFormat: ClockFormat): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return formatClockTime(date, clockFormat);
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
@@ -6,12 +7,23 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.WEATHER_PROVIDER': JSON.stringify(env.WEATHER_PROVIDER ?? ''),
+        'process.env.WEATHER_CACHE_TTL_MINUTES': JSON.stringify(env.WEATHER_CACHE_TTL_MINUTES ?? '')
+      },
+      build: {
+        // Read by public/sw.js to precache the hashed assets. Written to the root of dist/ rather than
+        // the default .vite/, which many static hosts do not serve.
+        manifest: 'build-manifest.json',
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // Services run in Node; component tests opt into jsdom with a `@vitest-environment jsdom` comment.
+        setupFiles: ['./test/setup.ts'],
       }
     };
 });